@@ -1,103 +1,115 @@
-import { jest } from '@jest/globals';
+import { afterAll, jest } from '@jest/globals';
+import { spawn } from 'node:child_process';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { getDefaultEnvironment, StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startMockServer } from './src/mock-server.js';
 
 // Set test timeout
 jest.setTimeout(30000);
 
-// Mock ScrapeOps API responses
-const mockHtmlResponse = `
-<!DOCTYPE html>
-<html>
-<head><title>Test Page</title></head>
-<body>
-  <h1>Test Content</h1>
-  <p>This is test content from ScrapeOps proxy.</p>
-</body>
-</html>
-`;
+// Route every ScrapeOps request to the local mock server instead of the
+// real proxy. SCRAPEOPS_API_URL must be set before the server module loads.
+const mockServer = await startMockServer({ fixturesDir: 'fixtures' });
+process.env.SCRAPEOPS_API_URL = mockServer.url;
+process.env.SCRAPEOPS_API_KEY = process.env.SCRAPEOPS_API_KEY || 'test-api-key';
 
-const mockJsonResponse = {
-  success: true,
-  data: {
-    title: 'Test Product',
-    price: 99.99,
-    description: 'Test product description',
-  },
-  initial_status_code: 200,
-  final_status_code: 200,
-};
-
-const mockScreenshotResponse = {
-  success: true,
-  screenshot: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
-  initial_status_code: 200,
-  final_status_code: 200,
-};
-
-const mockExtractResponse = {
-  success: true,
-  data: {
-    product_name: 'Test Product',
-    price: '$99.99',
-    availability: 'In Stock',
-    reviews_count: 150,
-    rating: 4.5,
-  },
-};
-
-// Mock global fetch
-const mockFetch = jest.fn().mockImplementation(async (url: string) => {
-  const urlObj = new URL(url);
-  const params = Object.fromEntries(urlObj.searchParams.entries());
-
-  // Determine response based on parameters
-  if (params.screenshot === 'true') {
-    return {
-      ok: true,
-      status: 200,
-      headers: new Map([['content-type', 'application/json']]),
-      json: async () => mockScreenshotResponse,
-      text: async () => JSON.stringify(mockScreenshotResponse),
-    };
-  }
-
-  if (params.llm_extract === 'true' || params.auto_extract) {
-    return {
-      ok: true,
-      status: 200,
-      headers: new Map([['content-type', 'application/json']]),
-      json: async () => mockExtractResponse,
-      text: async () => JSON.stringify(mockExtractResponse),
-    };
-  }
+afterAll(async () => {
+  await mockServer.close();
+});
 
-  if (params.json_response === 'true') {
-    return {
-      ok: true,
-      status: 200,
-      headers: new Map([['content-type', 'application/json']]),
-      json: async () => mockJsonResponse,
-      text: async () => JSON.stringify(mockJsonResponse),
-    };
-  }
+/**
+ * Start the built server (`npm test` builds it first) as an MCP client would,
+ * over stdio and pointed at the mock server. `logs()` returns everything it
+ * has written to stderr so far, `clientLogs()` the log messages it has sent
+ * the client, one JSON object per line. Profiles and snapshots stay in memory.
+ */
+export async function startMcpServer(env: Record<string, string> = {}): Promise<{
+  client: Client;
+  logs: () => string;
+  clientLogs: () => string;
+  close: () => Promise<void>;
+}> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [join(process.cwd(), 'dist', 'index.js')],
+    env: {
+      ...getDefaultEnvironment(),
+      SCRAPEOPS_API_URL: mockServer.url,
+      SCRAPEOPS_API_KEY: process.env.SCRAPEOPS_API_KEY || 'test-api-key',
+      SCRAPEOPS_PROFILE_STORE: 'none',
+      SCRAPEOPS_SNAPSHOT_DIR: 'none',
+      ...env,
+    },
+    stderr: 'pipe',
+  });
+  const chunks: Buffer[] = [];
+  transport.stderr?.on('data', (chunk: Buffer) => chunks.push(chunk));
 
-  // Default HTML response
+  const client = new Client({ name: 'jest', version: '1.0.0' });
+  const messages: string[] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+    messages.push(JSON.stringify(notification.params));
+  });
+  await client.connect(transport);
   return {
-    ok: true,
-    status: 200,
-    headers: new Map([['content-type', 'text/html']]),
-    json: async () => { throw new Error('Not JSON'); },
-    text: async () => mockHtmlResponse,
+    client,
+    logs: () => Buffer.concat(chunks).toString(),
+    clientLogs: () => messages.join('\n'),
+    close: () => client.close(),
   };
-});
+}
 
-// @ts-expect-error - Mock global fetch
-global.fetch = mockFetch;
+/**
+ * Start the built server on the HTTP stream transport at `port`, as a hosted
+ * deployment runs it, and resolve once it is listening. Clients connect to
+ * `url` with their own transport and headers.
+ */
+export async function startHttpServer(port: number, env: Record<string, string> = {}): Promise<{
+  url: URL;
+  logs: () => string;
+  close: () => Promise<void>;
+}> {
+  const child = spawn(process.execPath, [join(process.cwd(), 'dist', 'index.js')], {
+    env: {
+      ...getDefaultEnvironment(),
+      SCRAPEOPS_API_URL: mockServer.url,
+      SCRAPEOPS_API_KEY: process.env.SCRAPEOPS_API_KEY || 'test-api-key',
+      SCRAPEOPS_PROFILE_STORE: 'none',
+      SCRAPEOPS_SNAPSHOT_DIR: 'none',
+      ...env,
+      PORT: String(port),
+    },
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  const chunks: Buffer[] = [];
+  const logs = () => Buffer.concat(chunks).toString();
+  await new Promise<void>((resolve, reject) => {
+    child.stderr.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      if (logs().includes(`running on port ${port}`)) resolve();
+    });
+    child.on('exit', code => reject(new Error(`Server exited with code ${code}:\n${logs()}`)));
+  });
+  return {
+    url: new URL(`http://127.0.0.1:${port}/mcp`),
+    logs,
+    close: async () => {
+      if (child.exitCode !== null) return;
+      const exited = new Promise(resolve => child.once('exit', resolve));
+      child.kill();
+      await exited;
+    },
+  };
+}
 
 // Export mocks for test assertions
+export { mockServer };
 export {
-  mockFetch,
   mockHtmlResponse,
   mockJsonResponse,
   mockScreenshotResponse,
   mockExtractResponse,
-};
+  mockLinksResponse,
+} from './src/mock-server.js';
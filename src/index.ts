@@ -1,9 +1,24 @@
 #!/usr/bin/env node
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import http from 'node:http';
+import { homedir, tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { gunzipSync } from 'node:zlib';
+import { Readability } from '@mozilla/readability';
 import dotenv from 'dotenv';
-import { FastMCP } from 'firecrawl-fastmcp';
+import { FastMCP, FastMCPSession } from 'firecrawl-fastmcp';
+import { JSDOM } from 'jsdom';
+import sharp, { type OutputInfo } from 'sharp';
+import TurndownService from 'turndown';
 import { z } from 'zod';
 import type {
   Logger,
+  Content,
+  ContentResult,
+  Progress,
   SessionData,
   AuthenticateRequest,
   ScrapeOpsResponse,
@@ -15,6 +30,60 @@ import type {
   ValidationResult,
   SuggestedAdvancedParams,
   ErrorResponse,
+  ProxyTool,
+  CacheEntry,
+  ResponseCache,
+  ProxyRequest,
+  ProxyRequestResult,
+  ExtractionKind,
+  CreditEstimate,
+  BudgetStatus,
+  CrawlNode,
+  CrawlEdge,
+  BatchBrowseResult,
+  OutputFormat,
+  JsonSchema,
+  ExtractionField,
+  SchemaValidationReport,
+  SelectorField,
+  SelectorTransform,
+  SelectorExtractionResult,
+  ScreenshotOptions,
+  ProcessedScreenshot,
+  EnvelopeContentType,
+  ResponseEnvelope,
+  ToolCallContext,
+  ValidationFailure,
+  EscalationOptions,
+  EscalationPolicy,
+  EscalationAttempt,
+  EscalationReport,
+  EscalationOutcome,
+  DomainProfile,
+  RequestControl,
+  ScrapeOpsAccountResponse,
+  CreditTally,
+  CreditTallyEntry,
+  AccessToken,
+  AccessTokenConfig,
+  ForwardedRequest,
+  BrowserAction,
+  ActionStepReport,
+  PaginationPage,
+  PaginationStopReason,
+  RobotsRule,
+  RobotsGroup,
+  RobotsTxt,
+  SitemapEntry,
+  SitemapFetch,
+  DiscoveredUrl,
+  PolicyViolation,
+  MonitorMode,
+  MonitorRecord,
+  PageSnapshot,
+  TextDiff,
+  FieldDiff,
+  LinkDiff,
 } from './types/index.js';
 
 dotenv.config({ debug: false, quiet: true });
@@ -40,7 +109,102 @@ function hasAdvancedParams(params: UsedOptions): string[] {
   return used;
 }
 
-const BASE_URL = 'https://proxy.scrapeops.io/v1/';
+// ============================================================================
+// Credit Cost Model
+// ============================================================================
+
+/**
+ * Credits charged per request feature. Keys are flat: `premium.<level>` and
+ * `bypass_level.<level>` price the individual tiers. Override any subset with
+ * a JSON object in SCRAPEOPS_CREDIT_COSTS to match your plan.
+ */
+const DEFAULT_CREDIT_COSTS: Record<string, number> = {
+  base: 1,
+  render_js: 5,
+  screenshot: 5,
+  residential: 10,
+  mobile: 10,
+  'premium.level_1': 25,
+  'premium.level_2': 50,
+  'bypass_level.generic_level_1': 5,
+  'bypass_level.generic_level_2': 10,
+  'bypass_level.generic_level_3': 20,
+  'bypass_level.generic_level_4': 35,
+  'bypass_level.cloudflare_level_1': 10,
+  'bypass_level.cloudflare_level_2': 25,
+  'bypass_level.cloudflare_level_3': 50,
+  'bypass_level.datadome': 25,
+  'bypass_level.incapsula': 25,
+  'bypass_level.perimeterx': 25,
+  auto_extract: 5,
+  llm_extract: 10,
+};
+
+function loadCreditCosts(): Record<string, number> {
+  const raw = process.env.SCRAPEOPS_CREDIT_COSTS;
+  if (!raw) {
+    return DEFAULT_CREDIT_COSTS;
+  }
+  try {
+    return { ...DEFAULT_CREDIT_COSTS, ...(JSON.parse(raw) as Record<string, number>) };
+  } catch {
+    throw new Error('Invalid SCRAPEOPS_CREDIT_COSTS: expected a JSON object of feature to credit cost.');
+  }
+}
+
+const CREDIT_COSTS = loadCreditCosts();
+
+/**
+ * Estimate the credits a request will consume from the options it uses.
+ * With optimize_request and max_request_cost, ScrapeOps never charges more
+ * than the cap, so the estimate is clamped to it.
+ */
+function estimateCredits(options: UsedOptions, extraction?: ExtractionKind): CreditEstimate {
+  const breakdown: Record<string, number> = { base: CREDIT_COSTS.base };
+  const add = (feature: string) => {
+    if (CREDIT_COSTS[feature]) {
+      breakdown[feature] = CREDIT_COSTS[feature];
+    }
+  };
+
+  if (options.render_js) add('render_js');
+  if (options.screenshot) add('screenshot');
+  if (options.residential) add('residential');
+  if (options.mobile) add('mobile');
+  if (options.premium) add(`premium.${options.premium}`);
+  if (options.bypass_level) add(`bypass_level.${options.bypass_level}`);
+  if (extraction) add(`${extraction}_extract`);
+
+  let credits = Object.values(breakdown).reduce((sum, cost) => sum + cost, 0);
+  if (options.optimize_request && options.max_request_cost) {
+    credits = Math.min(credits, options.max_request_cost);
+  }
+  return { credits, breakdown };
+}
+
+const DEFAULT_BASE_URL = 'https://proxy.scrapeops.io/v1/';
+
+/**
+ * Resolve the upstream proxy endpoint. SCRAPEOPS_API_URL lets tests and local
+ * runs point the server at a stand-in such as the bundled mock server.
+ */
+function resolveBaseUrl(value: string | undefined): string {
+  if (!value || value.trim() === '') {
+    return DEFAULT_BASE_URL;
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    throw new Error(`Invalid SCRAPEOPS_API_URL: "${value}" is not a valid URL.`);
+  }
+  if (!parsed.pathname.endsWith('/')) {
+    parsed.pathname += '/';
+  }
+  return parsed.toString();
+}
+
+const BASE_URL = resolveBaseUrl(process.env.SCRAPEOPS_API_URL);
 const ORIGIN = 'mcp-scrapeops';
 
 function removeEmptyValues(obj: Partial<ScrapeOpsRequestParams>): Partial<ScrapeOpsRequestParams> {
@@ -70,36 +234,305 @@ function buildQueryString(params: ScrapeOpsRequestParams): string {
   return searchParams.toString();
 }
 
+// ============================================================================
+// Redaction
+// ============================================================================
+
+const REDACTED = '[REDACTED]';
+
+// Query params, header names and object keys whose values are secrets.
+const SENSITIVE_NAMES = new Set([
+  'api_key',
+  'apikey',
+  'access_token',
+  'token',
+  'password',
+  'secret',
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'scrapeops-api-key',
+  'scrapeops_api_key',
+]);
+
+const SENSITIVE_PARAM_PATTERN = new RegExp(`((?:^|[?&;\\s])(?:${[...SENSITIVE_NAMES].join('|')})=)[^&#\\s"']+`, 'gi');
+// Credentials after an HTTP auth scheme. The length floor keeps prose such as
+// "Basic request" intact.
+const AUTH_SCHEME_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/-]{16,}=*/g;
+
+// Known secrets shorter than this are left alone: replacing a short value
+// such as "test" everywhere would mangle ordinary text.
+const MIN_SECRET_LENGTH = 8;
+
+function parseRedactPatterns(raw: string | undefined): RegExp[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    return (JSON.parse(raw) as string[]).map(pattern => new RegExp(pattern, 'g'));
+  } catch (error) {
+    throw new Error(`Invalid SCRAPEOPS_REDACT_PATTERNS: expected a JSON array of regular expressions (${error instanceof Error ? error.message : String(error)}).`);
+  }
+}
+
+const REDACTION_CONFIG = {
+  patterns: parseRedactPatterns(process.env.SCRAPEOPS_REDACT_PATTERNS),
+};
+
+const knownSecrets = new Set<string>();
+
+/**
+ * Remember a secret (API key, bearer token) so its raw value is masked
+ * wherever it shows up, not only in the places a pattern can recognise.
+ */
+function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    knownSecrets.add(value);
+  }
+}
+
+registerSecret(process.env.SCRAPEOPS_API_KEY);
+
+function redactText(text: string): string {
+  let redacted = text
+    .replace(SENSITIVE_PARAM_PATTERN, `$1${REDACTED}`)
+    .replace(AUTH_SCHEME_PATTERN, `$1 ${REDACTED}`);
+  for (const secret of knownSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of REDACTION_CONFIG.patterns) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * Mask secrets in a log entry or error payload: values under sensitive keys
+ * are replaced outright, every other string is scrubbed with redactText.
+ */
+function redactValue<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item)) as T;
+  }
+  if (value instanceof Error) {
+    return redactText(value.message) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_NAMES.has(key.toLowerCase()) && (typeof item !== 'object' || item === null) ? REDACTED : redactValue(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+// Per-call state shared between the tools/call hook and the tool executing
+// inside it.
+const toolCallContext = new AsyncLocalStorage<ToolCallContext>();
+
+const LOG_FORMAT = process.env.SCRAPEOPS_LOG_FORMAT === 'json' ? 'json' : 'text';
+
 class ConsoleLogger implements Logger {
   debug(...args: unknown[]): void {
-    console.error('[DEBUG]', new Date().toISOString(), ...args);
+    console.error('[DEBUG]', new Date().toISOString(), ...args.map(arg => redactValue(arg)));
+  }
+  error(...args: unknown[]): void {
+    console.error('[ERROR]', new Date().toISOString(), ...args.map(arg => redactValue(arg)));
+  }
+  info(...args: unknown[]): void {
+    console.error('[INFO]', new Date().toISOString(), ...args.map(arg => redactValue(arg)));
+  }
+  log(...args: unknown[]): void {
+    console.error('[LOG]', new Date().toISOString(), ...args.map(arg => redactValue(arg)));
+  }
+  warn(...args: unknown[]): void {
+    console.error('[WARN]', new Date().toISOString(), ...args.map(arg => redactValue(arg)));
+  }
+}
+
+/**
+ * Writes one JSON object per line to stderr. String arguments make up the
+ * message, object arguments are merged in as fields, and the request ID of
+ * the tool call being served is added when there is one.
+ */
+class JsonLogger implements Logger {
+  debug(...args: unknown[]): void {
+    this.write('debug', args);
   }
   error(...args: unknown[]): void {
-    console.error('[ERROR]', new Date().toISOString(), ...args);
+    this.write('error', args);
   }
   info(...args: unknown[]): void {
-    console.error('[INFO]', new Date().toISOString(), ...args);
+    this.write('info', args);
   }
   log(...args: unknown[]): void {
-    console.error('[LOG]', new Date().toISOString(), ...args);
+    this.write('info', args);
   }
   warn(...args: unknown[]): void {
-    console.error('[WARN]', new Date().toISOString(), ...args);
+    this.write('warn', args);
+  }
+
+  private write(level: string, args: unknown[]): void {
+    const message: string[] = [];
+    const fields: Record<string, unknown> = {};
+    for (const arg of args) {
+      if (arg instanceof Error) {
+        fields.error = arg.message;
+      } else if (arg && typeof arg === 'object' && !Array.isArray(arg)) {
+        Object.assign(fields, arg);
+      } else if (arg !== undefined) {
+        message.push(typeof arg === 'string' ? arg : JSON.stringify(arg));
+      }
+    }
+    const requestId = toolCallContext.getStore()?.requestId;
+    console.error(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message.join(' ')),
+      ...(requestId && { request_id: requestId }),
+      ...redactValue(fields),
+    }));
+  }
+}
+
+const serverLogger: Logger = LOG_FORMAT === 'json' ? new JsonLogger() : new ConsoleLogger();
+
+/**
+ * Logger for one tool call, tagged with the call's request ID and tool and
+ * with secrets redacted. Messages go to the MCP client as before, or, when
+ * the server log is JSON for collection, to the server log instead. Calls
+ * that arrive before the session hooks are installed get an ID of their own.
+ */
+function requestLog(tool: string, clientLog: Logger): Logger {
+  const tags = { request_id: toolCallContext.getStore()?.requestId ?? randomUUID(), tool };
+  const target = LOG_FORMAT === 'json' ? serverLogger : clientLog;
+  const forward = (level: 'debug' | 'error' | 'info' | 'warn') => (message: unknown, context?: unknown) => {
+    const fields = context && typeof context === 'object' && !Array.isArray(context) ? context : context === undefined ? {} : { context };
+    target[level](redactValue(message), redactValue({ ...tags, ...fields }));
+  };
+  return { debug: forward('debug'), error: forward('error'), info: forward('info'), log: forward('info'), warn: forward('warn') };
+}
+
+// ============================================================================
+// Access Control
+// ============================================================================
+
+const AUTH_CONFIG = {
+  tokensFile: process.env.SCRAPEOPS_AUTH_TOKENS_FILE,
+  // Remote sessions without credentials use the operator's SCRAPEOPS_API_KEY
+  // unless this is turned off.
+  envKeyFallback: process.env.SCRAPEOPS_DISABLE_ENV_KEY_FALLBACK !== 'true',
+};
+
+const accessTokensFileSchema = z.object({
+  tokens: z.array(
+    z.object({
+      name: z.string().min(1),
+      token: z.string().min(16),
+      api_key: z.string().min(1),
+      allowed_tools: z.array(z.string()).optional(),
+      credit_quota: z.number().int().positive().optional(),
+    })
+  ),
+});
+
+function tokenDigest(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Load the server-issued bearer tokens, keyed by digest so a lookup does not
+ * compare raw tokens. A malformed file stops the server from starting rather
+ * than leaving it open.
+ */
+async function loadAccessTokens(path: string | undefined): Promise<Map<string, AccessTokenConfig>> {
+  const tokens = new Map<string, AccessTokenConfig>();
+  if (!path) {
+    return tokens;
+  }
+  let parsed: z.infer<typeof accessTokensFileSchema>;
+  try {
+    parsed = accessTokensFileSchema.parse(JSON.parse(await readFile(path, 'utf8')));
+  } catch (error) {
+    const reason = error instanceof z.ZodError ? z.prettifyError(error) : error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid SCRAPEOPS_AUTH_TOKENS_FILE: ${reason}`);
   }
+  for (const entry of parsed.tokens) {
+    registerSecret(entry.token);
+    registerSecret(entry.api_key);
+    const digest = tokenDigest(entry.token);
+    if (tokens.has(digest)) {
+      throw new Error(`Invalid SCRAPEOPS_AUTH_TOKENS_FILE: token for "${entry.name}" is issued more than once.`);
+    }
+    tokens.set(digest, entry);
+  }
+  return tokens;
+}
+
+const accessTokens = await loadAccessTokens(AUTH_CONFIG.tokensFile);
+
+function bearerToken(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+// The HTTP transport answers a thrown Response as is, so the client gets a
+// 401 instead of a generic server error.
+function unauthorized(reason: string): Response {
+  return new Response(null, {
+    status: 401,
+    statusText: `Unauthorized: ${reason}`,
+    headers: { 'WWW-Authenticate': 'Bearer' },
+  });
+}
+
+function toAccessToken(entry: AccessTokenConfig): AccessToken {
+  return { name: entry.name, allowedTools: entry.allowed_tools, creditQuota: entry.credit_quota };
+}
+
+/**
+ * Restrict a tool to sessions whose token allows it. Sessions without a token
+ * see every tool.
+ */
+function allowTool(name: string): (session: SessionData) => boolean {
+  return session => !session.token?.allowedTools || session.token.allowedTools.includes(name);
 }
 
 const server = new FastMCP<SessionData>({
   name: 'scrapeops-mcp',
   version: '1.0.0',
-  logger: new ConsoleLogger(),
+  logger: serverLogger,
   roots: { enabled: false },
   authenticate: async (req?: AuthenticateRequest): Promise<SessionData> => {
     // Try to get key from HTTP headers (for SSE transport)
     if (req && req.headers) {
+      const bearer = bearerToken(req.headers['authorization']);
+      if (bearer && accessTokens.size > 0) {
+        const entry = accessTokens.get(tokenDigest(bearer));
+        if (!entry) {
+          throw unauthorized('unknown bearer token');
+        }
+        return { scrapeOpsApiKey: entry.api_key, token: toAccessToken(entry) };
+      }
       const headerKey = req.headers['scrapeops-api-key'] || req.headers['scrapeops_api_key'];
       if (headerKey) {
         return { scrapeOpsApiKey: Array.isArray(headerKey) ? headerKey[0] : headerKey };
       }
+      if (!AUTH_CONFIG.envKeyFallback) {
+        throw unauthorized('a bearer token or scrapeops-api-key header is required');
+      }
     }
     // Fallback to environment variable
     return { scrapeOpsApiKey: process.env.SCRAPEOPS_API_KEY };
@@ -121,15 +554,86 @@ function getApiKey(session?: SessionData): string {
   if (!apiKey) {
     throw new Error('API key is required. Set SCRAPEOPS_API_KEY environment variable.');
   }
+  registerSecret(apiKey);
   return apiKey;
 }
 
 
+// Error types a retry can fix, and so may be listed in SCRAPEOPS_RETRY_ON.
+const RETRYABLE_ERROR_TYPES: ErrorType[] = [
+  'server_error',
+  'bad_gateway',
+  'service_unavailable',
+  'network_error',
+  'account_rate_limited',
+  'rate_limited',
+];
+
+// A 429 from the target site (`rate_limited`) is left out by default:
+// retrying a site that is rate limiting usually makes it worse.
+const DEFAULT_RETRY_ON = 'server_error,bad_gateway,service_unavailable,network_error,account_rate_limited';
+
+function parseRetryOn(raw: string): ErrorType[] {
+  const types = raw.split(',').map(type => type.trim()).filter(Boolean) as ErrorType[];
+  const invalid = types.filter(type => !RETRYABLE_ERROR_TYPES.includes(type));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid SCRAPEOPS_RETRY_ON: ${invalid.join(', ')}. Use any of ${RETRYABLE_ERROR_TYPES.join(', ')}.`);
+  }
+  return types;
+}
+
+// One attempt by default, as before: every retry of a rendered or premium
+// request can cost its credits again, so retrying is the operator's call.
 const RETRY_CONFIG = {
   maxAttempts: parseInt(process.env.SCRAPEOPS_RETRY_MAX_ATTEMPTS || '1', 10),
   initialDelay: parseInt(process.env.SCRAPEOPS_RETRY_INITIAL_DELAY || '1000', 10),
+  maxDelay: parseInt(process.env.SCRAPEOPS_RETRY_MAX_DELAY || '30000', 10),
+  maxTotalTime: parseInt(process.env.SCRAPEOPS_RETRY_MAX_TOTAL_TIME || '60000', 10),
+  retryOn: parseRetryOn(process.env.SCRAPEOPS_RETRY_ON || DEFAULT_RETRY_ON),
 };
 
+// Deadline per tool call in ms, retries included. 0 disables the timeout.
+const TIMEOUT_CONFIG: Record<ProxyTool, number> = {
+  maps_web: parseInt(process.env.SCRAPEOPS_TIMEOUT_MAPS_WEB || '120000', 10),
+  extract_data: parseInt(process.env.SCRAPEOPS_TIMEOUT_EXTRACT_DATA || '180000', 10),
+  return_links: parseInt(process.env.SCRAPEOPS_TIMEOUT_RETURN_LINKS || '120000', 10),
+  // Every tool call to the origin waits on this lookup.
+  robots_txt: 30000,
+};
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date,
+ * into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Decide whether a failed attempt is retried and after how long. Backoff
+ * doubles per retry with jitter over its upper half; a Retry-After header
+ * replaces it. Either wait is capped at the maximum delay. Returns undefined
+ * when the error type is not retryable, the attempts are used up, or waiting
+ * would exceed the total retry time.
+ */
+function retryDelay(errorType: ErrorType, retries: number, startedAt: number, retryAfter?: number): number | undefined {
+  if (!RETRY_CONFIG.retryOn.includes(errorType) || retries + 1 >= RETRY_CONFIG.maxAttempts) {
+    return undefined;
+  }
+  const backoff = Math.min(RETRY_CONFIG.initialDelay * 2 ** retries, RETRY_CONFIG.maxDelay);
+  const delay = Math.min(retryAfter ?? Math.round(backoff / 2 + Math.random() * (backoff / 2)), RETRY_CONFIG.maxDelay);
+  if (Date.now() - startedAt + delay > RETRY_CONFIG.maxTotalTime) {
+    return undefined;
+  }
+  return delay;
+}
+
 
 function getErrorType(statusCode: number): ErrorType {
   switch (statusCode) {
@@ -144,10 +648,15 @@ function getErrorType(statusCode: number): ErrorType {
   }
 }
 
+// ScrapeOps answers 429 itself when the account is over its plan's
+// concurrency or request rate, and says so in the body. A 429 from the target
+// site comes through with the site's own body.
+const ACCOUNT_THROTTLE_PATTERN = /concurren(cy|t)|your plan|plan limit|api credits/i;
+
 /**
  * Get user-friendly error message based on error type
  */
-function getErrorMessage(errorType: ErrorType, statusCode: number): string {
+function getErrorMessage(errorType: ErrorType, statusCode?: number): string {
   switch (errorType) {
     case 'auth_failed':
       return 'Invalid API Key. Please check your SCRAPEOPS_API_KEY environment variable.';
@@ -157,6 +666,8 @@ function getErrorMessage(errorType: ErrorType, statusCode: number): string {
       return `Page not found (HTTP 404). Please verify the URL is correct.`;
     case 'rate_limited':
       return `Rate limited (HTTP 429). Too many requests. Please wait before retrying.`;
+    case 'account_rate_limited':
+      return `ScrapeOps account limit reached (HTTP 429). Too many concurrent requests for your plan.`;
     case 'server_error':
       return `Server error (HTTP 500). The request failed on ScrapeOps servers.`;
     case 'bad_gateway':
@@ -165,287 +676,4875 @@ function getErrorMessage(errorType: ErrorType, statusCode: number): string {
       return `Service unavailable (HTTP 503). The service is temporarily down.`;
     case 'network_error':
       return `Network error. Please check your internet connection.`;
+    case 'budget_exceeded':
+      return `Credit budget exceeded. The request was not sent.`;
+    case 'policy_blocked':
+      return `Blocked by the server's request policy. The request was not sent.`;
+    case 'timeout':
+      return `Request timed out. The page took too long to load or render.`;
+    case 'cancelled':
+      return `Request cancelled by the client.`;
+    case 'processing_failed':
+      return `The response could not be processed.`;
+    case 'response_too_large':
+      return `Response too large. It unpacks to more than ${MAX_GUNZIP_BYTES / 1024 / 1024} MB.`;
     default:
       return `Request failed with status ${statusCode}.`;
   }
 }
 
+// Files such as .xml.gz sitemaps come through as gzip bytes rather than with
+// a Content-Encoding the fetch would undo. The cap is the sitemap size limit.
+const MAX_GUNZIP_BYTES = 50 * 1024 * 1024;
+
+function decodeBody(body: Buffer): string {
+  const gzipped = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+  return (gzipped ? gunzipSync(body, { maxOutputLength: MAX_GUNZIP_BYTES }) : body).toString('utf8');
+}
+
 async function makeRequest(
   apiKey: string,
   params: Partial<ScrapeOpsRequestParams>,
-  log: Logger
+  log: Logger,
+  control: RequestControl = {}
 ): Promise<RequestResult> {
   const queryParams: ScrapeOpsRequestParams = {
     url: params.url || '',
     api_key: apiKey,
     ...params,
   };
-  const url = `${BASE_URL}?${buildQueryString(queryParams)}`;
-  log.info('Making ScrapeOps request', { url: params.url, params: Object.keys(params).filter(k => k !== 'url') });
+  const url = `${new URL(control.path ?? '', BASE_URL).toString()}?${buildQueryString(queryParams)}`;
+  log.info('Making ScrapeOps request', {
+    url: params.url,
+    ...(control.path && { endpoint: control.path }),
+    params: Object.keys(params).filter(k => k !== 'url'),
+  });
+
+  const startedAt = Date.now();
+  // One deadline for the whole call, retries included. Aborting also cancels
+  // the upstream request so it stops rendering and billing.
+  const timeoutSignal = control.timeoutMs ? AbortSignal.timeout(control.timeoutMs) : undefined;
+  const signals = [control.signal, timeoutSignal].filter((signal): signal is AbortSignal => signal !== undefined);
+  const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+  const aborted = (attempt: number): RequestResult => {
+    if (timeoutSignal?.aborted) {
+      log.warn(`Request timed out after ${control.timeoutMs}ms`, { url: params.url });
+      return {
+        success: false,
+        error: `${getErrorMessage('timeout')} No response within ${control.timeoutMs}ms.`,
+        errorType: 'timeout',
+        retriesAttempted: attempt,
+      };
+    }
+    log.info('Request cancelled by the client', { url: params.url });
+    return {
+      success: false,
+      error: getErrorMessage('cancelled'),
+      errorType: 'cancelled',
+      retriesAttempted: attempt,
+    };
+  };
 
-  let attempt = 0;
-  let delay = RETRY_CONFIG.initialDelay;
-  let lastError: unknown = null;
+  for (let attempt = 0; ; attempt++) {
+    let failure: RequestResult;
+    let retryAfter: number | undefined;
 
-  while (attempt < RETRY_CONFIG.maxAttempts) {
     try {
+      const headers = new Headers({ 'User-Agent': `ScrapeOps-MCP/${ORIGIN}` });
+      for (const [name, value] of Object.entries(control.forward?.headers || {})) {
+        headers.set(name, value);
+      }
       const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': `ScrapeOps-MCP/${ORIGIN}`,
-        },
+        method: control.forward?.method ?? 'GET',
+        headers,
+        body: control.forward?.body,
+        signal,
       });
 
       const status = response.status;
-      const errorType = getErrorType(status);
 
-      if (!response.ok) {
-        log.warn(`Request failed with status ${status} (${errorType})`, { attempt: attempt + 1, url: params.url });
+      if (response.ok) {
+        const contentType = response.headers.get('content-type') || '';
+        const headers = params.keep_headers ? redactValue(Object.fromEntries(response.headers.entries())) : undefined;
+
+        if (contentType.includes('application/json') || params.json_response) {
+          const jsonData = await response.json();
+          return { success: true, data: jsonData as ScrapeOpsResponse, statusCode: status, retriesAttempted: attempt, headers };
+        }
 
-        if (errorType === 'auth_failed') {
+        let textData: string;
+        try {
+          textData = decodeBody(Buffer.from(await response.arrayBuffer()));
+        } catch (error) {
+          // Downloading it again would only hit the cap again.
+          if ((error as NodeJS.ErrnoException).code !== 'ERR_BUFFER_TOO_LARGE') throw error;
+          log.warn('Response too large to unpack', { url: params.url, limit_bytes: MAX_GUNZIP_BYTES });
           return {
             success: false,
-            error: getErrorMessage(errorType, status),
-            errorType,
+            error: getErrorMessage('response_too_large'),
+            errorType: 'response_too_large',
             statusCode: status,
             retriesAttempted: attempt,
           };
         }
-
-        if (status === 500 && attempt < RETRY_CONFIG.maxAttempts - 1) {
-          log.info(`HTTP 500 detected, retrying in ${delay}ms (attempt ${attempt + 1}/${RETRY_CONFIG.maxAttempts})`);
-          await new Promise(res => setTimeout(res, delay));
-          delay *= 2;
-          attempt++;
-          continue;
-        }
-        return {
-          success: false,
-          error: getErrorMessage(errorType, status),
-          errorType,
-          statusCode: status,
-          retriesAttempted: attempt,
-        };
+        return { success: true, data: textData, statusCode: status, retriesAttempted: attempt, headers };
       }
 
-      const contentType = response.headers.get('content-type') || '';
-
-      if (contentType.includes('application/json') || params.json_response) {
-        const jsonData = await response.json();
-        return { success: true, data: jsonData as ScrapeOpsResponse, statusCode: status, retriesAttempted: attempt };
+      // Read the body even when it is not needed, so the connection is freed.
+      const errorBody = await response.text().catch(() => '');
+      let errorType = getErrorType(status);
+      if (errorType === 'rate_limited' && ACCOUNT_THROTTLE_PATTERN.test(errorBody)) {
+        errorType = 'account_rate_limited';
       }
-
-      const textData = await response.text();
-      return { success: true, data: textData, statusCode: status, retriesAttempted: attempt };
+      log.warn(`Request failed with status ${status} (${errorType})`, { attempt: attempt + 1, url: params.url });
+      failure = {
+        success: false,
+        error: getErrorMessage(errorType, status),
+        errorType,
+        statusCode: status,
+        retriesAttempted: attempt,
+      };
+      retryAfter = parseRetryAfter(response.headers.get('retry-after'));
     } catch (error) {
-      lastError = error;
-      if (attempt < 1) {
-        log.warn(`Network error: ${error instanceof Error ? error.message : String(error)}, retrying once...`);
-        await new Promise(res => setTimeout(res, delay));
-        attempt++;
-        continue;
+      if (signal?.aborted) {
+        return aborted(attempt);
       }
-      break;
+      const errorMessage = redactText(error instanceof Error ? error.message : String(error));
+      log.warn(`Network error: ${errorMessage}`, { attempt: attempt + 1, url: params.url });
+      failure = {
+        success: false,
+        error: `Network error: ${errorMessage}`,
+        errorType: 'network_error',
+        retriesAttempted: attempt,
+      };
     }
-  }
 
-  const errorMessage = lastError instanceof Error ? lastError.message : String(lastError);
-  return {
-    success: false,
-    error: `Network error: ${errorMessage}`,
-    errorType: 'network_error',
-    retriesAttempted: attempt,
-  };
+    // A failed POST may still have reached the target; sending it again could
+    // submit the form twice.
+    const delay =
+      control.forward?.method === 'POST' ? undefined : retryDelay(failure.errorType || 'unknown', attempt, startedAt, retryAfter);
+    if (delay === undefined) {
+      return failure;
+    }
+    log.info(`Retrying after ${failure.errorType} in ${delay}ms (attempt ${attempt + 2}/${RETRY_CONFIG.maxAttempts})`);
+    try {
+      await sleep(delay, undefined, { signal });
+    } catch {
+      return aborted(attempt);
+    }
+  }
 }
 
 
-function validateParams(params: ValidationParams): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+// ============================================================================
+// Budget Enforcement
+// ============================================================================
 
-  if (params.render_js === false && params.wait_for) {
-    errors.push('Conflict: `wait_for` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `wait_for`.');
-  }
+const BUDGET_CONFIG = {
+  sessionCredits: parseInt(process.env.SCRAPEOPS_SESSION_CREDIT_BUDGET || '0', 10),
+  apiKeyCredits: parseInt(process.env.SCRAPEOPS_API_KEY_CREDIT_BUDGET || '0', 10),
+};
 
-  if (params.render_js === false && params.scroll) {
-    errors.push('Conflict: `scroll` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `scroll`.');
-  }
+// stdio runs have no authenticated session object; they share this one.
+const STDIO_SESSION: SessionData = {};
 
-  if (params.render_js === false && params.screenshot) {
-    errors.push('Conflict: `screenshot` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `screenshot`.');
-  }
+const sessionSpend = new WeakMap<SessionData, number>();
+const apiKeySpend = new Map<string, number>();
+// Keyed by token name, so a quota is shared by every session using the token.
+const tokenSpend = new Map<string, number>();
 
-  if (params.optimize_request && params.bypass_level) {
-    warnings.push('Warning: Using `optimize_request` with `bypass_level` may cause conflicts. The optimizer may override your bypass settings.');
+const BUDGET_SCOPE_LABELS: Record<BudgetStatus['scope'], string> = {
+  session: 'session',
+  api_key: 'API key',
+  token: 'access token',
+};
+
+function apiKeyId(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+function checkBudget(scope: BudgetStatus['scope'], limit: number, spent: number, requested: number): BudgetStatus | undefined {
+  if (limit <= 0 || spent + requested <= limit) {
+    return undefined;
   }
+  return { scope, limit, spent, remaining: Math.max(limit - spent, 0), requested };
+}
 
-  if (params.optimize_request && params.premium) {
-    warnings.push('Warning: Using `optimize_request` with `premium` may cause conflicts. The optimizer may override your premium settings.');
+/**
+ * Reserve credits against the session and API key budgets before a request
+ * is sent. Returns the exceeded budget when the request must be refused.
+ * Reserving up front keeps concurrent requests from overshooting the limit.
+ */
+function reserveCredits(apiKey: string, session: SessionData | undefined, credits: number): BudgetStatus | undefined {
+  const sessionKey = session || STDIO_SESSION;
+  const keyId = apiKeyId(apiKey);
+  const token = session?.token;
+  const sessionSpent = sessionSpend.get(sessionKey) || 0;
+  const keySpent = apiKeySpend.get(keyId) || 0;
+  const tokenSpent = token ? tokenSpend.get(token.name) || 0 : 0;
+
+  const exceeded =
+    checkBudget('session', BUDGET_CONFIG.sessionCredits, sessionSpent, credits) ||
+    checkBudget('api_key', BUDGET_CONFIG.apiKeyCredits, keySpent, credits) ||
+    checkBudget('token', token?.creditQuota || 0, tokenSpent, credits);
+  if (exceeded) {
+    return exceeded;
   }
 
-  if (params.session_number !== undefined) {
-    if (params.session_number < 1 || params.session_number > 10000) {
-      errors.push('Invalid `session_number`: must be between 1 and 10000.');
-    }
+  sessionSpend.set(sessionKey, sessionSpent + credits);
+  apiKeySpend.set(keyId, keySpent + credits);
+  if (token) {
+    tokenSpend.set(token.name, tokenSpent + credits);
   }
+  return undefined;
+}
 
-  if (params.max_request_cost && !params.optimize_request) {
-    errors.push('`max_request_cost` requires `optimize_request: true` to be set.');
+/**
+ * Give back reserved credits. ScrapeOps only bills successful requests.
+ */
+function refundCredits(apiKey: string, session: SessionData | undefined, credits: number): void {
+  const sessionKey = session || STDIO_SESSION;
+  const keyId = apiKeyId(apiKey);
+  sessionSpend.set(sessionKey, Math.max((sessionSpend.get(sessionKey) || 0) - credits, 0));
+  apiKeySpend.set(keyId, Math.max((apiKeySpend.get(keyId) || 0) - credits, 0));
+  if (session?.token) {
+    tokenSpend.set(session.token.name, Math.max((tokenSpend.get(session.token.name) || 0) - credits, 0));
   }
+}
 
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
+const sessionTally = new WeakMap<SessionData, CreditTally>();
+
+/**
+ * Add a billed request to the session's spend tally, broken down by tool and
+ * by target domain. Cache hits cost nothing and are not counted.
+ */
+function recordSpend(session: SessionData | undefined, toolName: ProxyTool, url: string | undefined, credits: number): void {
+  const sessionKey = session || STDIO_SESSION;
+  const tally = sessionTally.get(sessionKey) || { credits: 0, requests: 0, by_tool: {}, by_domain: {} };
+  const add = (entries: Record<string, CreditTallyEntry>, key: string) => {
+    const entry = entries[key] || { credits: 0, requests: 0 };
+    entries[key] = { credits: entry.credits + credits, requests: entry.requests + 1 };
   };
+  tally.credits += credits;
+  tally.requests += 1;
+  add(tally.by_tool, toolName);
+  add(tally.by_domain, (url && profileDomain(url)) || 'unknown');
+  sessionTally.set(sessionKey, tally);
 }
 
+// ============================================================================
+// Request Throttling
+// ============================================================================
+
 /**
- * Generate MCP-compliant error response that properly asks for user permission
- * before suggesting advanced parameters.
- * 
- * Key principle: NEVER auto-suggest retry with advanced params.
- * Instead, explain what happened and ASK for permission.
+ * Per-API-key token bucket plus in-flight cap. Callers over either limit wait
+ * in a FIFO queue instead of being rejected, so agents sharing a key stay
+ * within the ScrapeOps plan's rate and concurrency limits.
  */
-function generateErrorResponse(
-  url: string,
-  error: string,
-  errorType: ErrorType | undefined,
-  statusCode: number | undefined,
-  usedOptions: UsedOptions,
-  retriesAttempted: number = 0
-): string {
-  const usedAdvancedParams = hasAdvancedParams(usedOptions);
-  const wasBasicRequest = usedAdvancedParams.length === 0;
+class RequestLimiter {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private inFlight = 0;
+  private waiting: (() => void)[] = [];
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private ratePerSecond: number,
+    private burst: number,
+    private maxInFlight: number
+  ) {
+    this.tokens = burst;
+  }
 
-  let userMessage: string;
-  let canRetryWithAdvanced: boolean = false;
-  let suggestedAdvancedParams: SuggestedAdvancedParams = {};
+  /**
+   * Wait for a slot. Resolves with the time spent queued in ms; rejects if
+   * `signal` aborts first.
+   */
+  acquire(signal?: AbortSignal): Promise<number> {
+    const queuedAt = Date.now();
+    return new Promise<number>((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(Date.now() - queuedAt);
+      };
+      const cancel = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== grant);
+        reject(signal?.reason);
+      };
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener('abort', cancel, { once: true });
+      this.waiting.push(grant);
+      this.pump();
+    });
+  }
 
-  switch (errorType) {
-    case 'auth_failed':
-      userMessage = 'Authentication failed. Please verify your SCRAPEOPS_API_KEY is correct and has not expired.';
-      break;
+  release(): void {
+    this.inFlight = Math.max(this.inFlight - 1, 0);
+    this.pump();
+  }
 
-    case 'forbidden':
-      userMessage = wasBasicRequest
-        ? 'The target website blocked the request (HTTP 403). This often happens with protected sites.'
-        : `The request was blocked even with advanced options: ${usedAdvancedParams.join(', ')}.`;
-      canRetryWithAdvanced = wasBasicRequest;
-      suggestedAdvancedParams = {
-        residential: true,
-        bypass_level: 'generic_level_2',
-      };
-      break;
+  stats(): { in_flight: number; queued: number } {
+    return { in_flight: this.inFlight, queued: this.waiting.length };
+  }
 
-    case 'rate_limited':
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond);
+    this.refilledAt = now;
+  }
+
+  private pump(): void {
+    while (this.waiting.length > 0) {
+      if (this.maxInFlight > 0 && this.inFlight >= this.maxInFlight) {
+        return;
+      }
+      if (this.ratePerSecond > 0) {
+        this.refill();
+        if (this.tokens < 1) {
+          if (!this.timer) {
+            const wait = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+            this.timer = setTimeout(() => {
+              this.timer = undefined;
+              this.pump();
+            }, wait);
+          }
+          return;
+        }
+        this.tokens -= 1;
+      }
+      this.inFlight++;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+const THROTTLE_CONFIG = {
+  ratePerSecond: parseFloat(process.env.SCRAPEOPS_RATE_LIMIT_PER_SECOND || '0'),
+  burst: parseInt(process.env.SCRAPEOPS_RATE_LIMIT_BURST || '0', 10),
+  maxInFlight: parseInt(process.env.SCRAPEOPS_MAX_CONCURRENT_REQUESTS || '0', 10),
+};
+
+const limiters = new Map<string, RequestLimiter>();
+
+function limiterFor(apiKey: string): RequestLimiter | undefined {
+  if (THROTTLE_CONFIG.ratePerSecond <= 0 && THROTTLE_CONFIG.maxInFlight <= 0) {
+    return undefined;
+  }
+  const keyId = apiKeyId(apiKey);
+  let limiter = limiters.get(keyId);
+  if (!limiter) {
+    const burst = THROTTLE_CONFIG.burst > 0 ? THROTTLE_CONFIG.burst : Math.max(Math.ceil(THROTTLE_CONFIG.ratePerSecond), 1);
+    limiter = new RequestLimiter(THROTTLE_CONFIG.ratePerSecond, burst, THROTTLE_CONFIG.maxInFlight);
+    limiters.set(keyId, limiter);
+  }
+  return limiter;
+}
+
+// ============================================================================
+// Request Policy
+// ============================================================================
+
+interface DomainPattern {
+  pattern: string;
+  regex: RegExp;
+}
+
+/**
+ * Comma-separated hostname globs, e.g. `example.com,*.example.com`. `*`
+ * matches any run of characters, dots included.
+ */
+function parseDomainPatterns(raw: string | undefined): DomainPattern[] {
+  return (raw || '')
+    .split(',')
+    .map(pattern => pattern.trim().toLowerCase())
+    .filter(pattern => pattern.length > 0)
+    .map(pattern => ({ pattern, regex: globToRegExp(pattern) }));
+}
+
+const POLICY_CONFIG = {
+  allowedDomains: parseDomainPatterns(process.env.SCRAPEOPS_ALLOWED_DOMAINS),
+  deniedDomains: parseDomainPatterns(process.env.SCRAPEOPS_DENIED_DOMAINS),
+  respectRobotsTxt: process.env.SCRAPEOPS_RESPECT_ROBOTS_TXT === 'true',
+  robotsUserAgent: process.env.SCRAPEOPS_ROBOTS_USER_AGENT || '*',
+  robotsCacheTtlSeconds: parseInt(process.env.SCRAPEOPS_ROBOTS_CACHE_TTL_SECONDS || '3600', 10),
+  domainRequestsPerMinute: parseInt(process.env.SCRAPEOPS_DOMAIN_MAX_REQUESTS_PER_MINUTE || '0', 10),
+};
+
+const POLICY_LABELS: Record<PolicyViolation['policy'], string> = {
+  denied_domains: 'denied domains',
+  allowed_domains: 'allowed domains',
+  robots_txt: 'robots.txt',
+  domain_rate_limit: 'per-domain rate limit',
+};
+
+/**
+ * Compile a robots.txt path pattern: `*` matches any run of characters and a
+ * trailing `$` anchors the end of the path.
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt into groups of rules and the Sitemap directives.
+ * Consecutive User-agent lines share one group; an empty Disallow allows
+ * everything, so it adds no rule.
+ */
+function parseRobotsTxt(text: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let group: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) robots.sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      if (!group || !collectingAgents) {
+        group = { agents: [], rules: [] };
+        robots.groups.push(group);
+      }
+      group.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+    if ((field === 'allow' || field === 'disallow') && group && value) {
+      group.rules.push({ allow: field === 'allow', pattern: value, regex: robotsPatternToRegExp(value) });
+    }
+  }
+  return robots;
+}
+
+/**
+ * Rules for a user agent: those of the groups naming the longest agent the
+ * user agent contains, else those for `*`.
+ */
+function robotsRulesFor(robots: RobotsTxt, userAgent: string): { agent: string | null; rules: RobotsRule[] } {
+  const ua = userAgent.toLowerCase();
+  let agent = '';
+  for (const name of robots.groups.flatMap(group => group.agents)) {
+    if (name !== '*' && ua.includes(name) && name.length > agent.length) {
+      agent = name;
+    }
+  }
+  if (!agent && robots.groups.some(group => group.agents.includes('*'))) {
+    agent = '*';
+  }
+  return {
+    agent: agent || null,
+    rules: robots.groups.filter(group => group.agents.includes(agent)).flatMap(group => group.rules),
+  };
+}
+
+/**
+ * The rule deciding whether robots.txt lets `url` be fetched: the longest
+ * match, with Allow winning a tie. No match means allowed.
+ */
+function matchRobotsRule(rules: RobotsRule[], url: string): RobotsRule | undefined {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let decisive: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!rule.regex.test(path)) continue;
+    if (
+      !decisive ||
+      rule.pattern.length > decisive.pattern.length ||
+      (rule.pattern.length === decisive.pattern.length && rule.allow)
+    ) {
+      decisive = rule;
+    }
+  }
+  return decisive;
+}
+
+// `unreachable` holds why robots.txt could not be read.
+type RobotsLookup = { robots: RobotsTxt; unreachable?: undefined } | { robots?: undefined; unreachable: string };
+
+// Keyed by tenant and origin: a lookup is paid for with one tenant's key and
+// budget, and its result is not handed to other tenants.
+const robotsCache = new Map<string, { expiresAt: number; lookup: Promise<RobotsLookup> }>();
+
+function robotsCacheKey(origin: string, apiKey: string, session: SessionData | undefined): string {
+  const tenant = session?.token ? `token:${session.token.name}` : `key:${apiKeyId(apiKey)}`;
+  return `${tenant} ${origin}`;
+}
+
+/**
+ * Fetch robots.txt through the proxy pipeline with the caller's credentials,
+ * so it is budgeted, queued and rate limited like any other request and
+ * counted under its own `robots_txt` tool. As RFC 9309 asks, a
+ * missing file (4xx) allows everything and one that cannot be fetched (5xx,
+ * 429, network, or refused locally) disallows everything.
+ */
+async function fetchRobotsTxt(origin: string, apiKey: string, session: SessionData | undefined, log: Logger): Promise<RobotsLookup> {
+  const result = await proxyRequest({
+    toolName: 'robots_txt',
+    apiKey,
+    session,
+    params: { url: `${origin}/robots.txt` },
+    usedOptions: {},
+    cache: 'bypass',
+  }, log);
+  if (result.success) {
+    return { robots: parseRobotsTxt(asText(result.data)) };
+  }
+  const status = result.statusCode;
+  if (status && status >= 400 && status < 500 && status !== 429) {
+    return { robots: { groups: [], sitemaps: [] } };
+  }
+  return { unreachable: status ? `HTTP ${status}` : result.error || 'no response' };
+}
+
+function robotsTxtFor(origin: string, apiKey: string, session: SessionData | undefined, log: Logger): Promise<RobotsLookup> {
+  const key = robotsCacheKey(origin, apiKey, session);
+  const cached = robotsCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.lookup;
+  }
+  const lookup = fetchRobotsTxt(origin, apiKey, session, log);
+  robotsCache.set(key, { expiresAt: Date.now() + POLICY_CONFIG.robotsCacheTtlSeconds * 1000, lookup });
+  // Failures are not cached: the next request tries again.
+  void lookup.then(result => {
+    if (result.unreachable && robotsCache.get(key)?.lookup === lookup) {
+      robotsCache.delete(key);
+    }
+  });
+  return lookup;
+}
+
+// Request times per domain over the last minute.
+const domainRequests = new Map<string, number[]>();
+
+function takeDomainSlot(domain: string): boolean {
+  const now = Date.now();
+  const recent = (domainRequests.get(domain) || []).filter(time => now - time < 60000);
+  const allowed = recent.length < POLICY_CONFIG.domainRequestsPerMinute;
+  if (allowed) {
+    recent.push(now);
+  }
+  domainRequests.set(domain, recent);
+  return allowed;
+}
+
+/**
+ * Check a target URL against the operator's access policy: the domain
+ * denylist and allowlist, then robots.txt when compliance is on. Returns the
+ * violation when the request must be refused, cached or not.
+ */
+async function checkPolicy(
+  targetUrl: string | undefined,
+  apiKey: string,
+  session: SessionData | undefined,
+  log: Logger
+): Promise<PolicyViolation | undefined> {
+  let target: URL;
+  try {
+    target = new URL(targetUrl || '');
+  } catch {
+    return undefined;
+  }
+  const domain = target.hostname.toLowerCase();
+
+  const denied = POLICY_CONFIG.deniedDomains.find(({ regex }) => regex.test(domain));
+  if (denied) {
+    return { policy: 'denied_domains', domain, rule: denied.pattern };
+  }
+  const { allowedDomains } = POLICY_CONFIG;
+  if (allowedDomains.length > 0 && !allowedDomains.some(({ regex }) => regex.test(domain))) {
+    return { policy: 'allowed_domains', domain, rule: `not in ${allowedDomains.map(({ pattern }) => pattern).join(', ')}` };
+  }
+
+  // robots.txt itself is always allowed.
+  if (POLICY_CONFIG.respectRobotsTxt && target.pathname !== '/robots.txt') {
+    const lookup = await robotsTxtFor(target.origin, apiKey, session, log);
+    if (!lookup.robots) {
+      return { policy: 'robots_txt', domain, rule: `robots.txt could not be fetched (${lookup.unreachable}), so everything is disallowed` };
+    }
+    const { agent, rules } = robotsRulesFor(lookup.robots, POLICY_CONFIG.robotsUserAgent);
+    const match = matchRobotsRule(rules, target.href);
+    if (match && !match.allow) {
+      return { policy: 'robots_txt', domain, rule: `Disallow: ${match.pattern} (User-agent: ${agent})` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Take a slot under the per-domain rate for a request that is about to be
+ * sent. Returns the violation when the domain's minute is used up.
+ */
+function checkDomainRate(targetUrl: string | undefined): PolicyViolation | undefined {
+  if (POLICY_CONFIG.domainRequestsPerMinute <= 0) {
+    return undefined;
+  }
+  let domain: string;
+  try {
+    domain = new URL(targetUrl || '').hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  if (takeDomainSlot(domain)) {
+    return undefined;
+  }
+  return { policy: 'domain_rate_limit', domain, rule: `${POLICY_CONFIG.domainRequestsPerMinute} requests per minute` };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+type MetricLabels = Record<string, string>;
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+class Counter {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: MetricLabels, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`),
+    ];
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${key} ${series.sum}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+// The endpoint has no auth and its labels name every caller's target domains,
+// so it is off unless a port is set, and listens on loopback by default.
+const METRICS_CONFIG = {
+  port: parseInt(process.env.SCRAPEOPS_METRICS_PORT || '0', 10),
+  host: process.env.SCRAPEOPS_METRICS_HOST || '127.0.0.1',
+  path: '/metrics',
+  // Distinct target domains given their own label; the rest are "other".
+  maxDomains: parseInt(process.env.SCRAPEOPS_METRICS_MAX_DOMAINS || '100', 10),
+};
+
+const metrics = {
+  requests: new Counter('scrapeops_mcp_requests_total', 'Proxy requests by tool, target domain and outcome.'),
+  duration: new Histogram(
+    'scrapeops_mcp_request_duration_seconds',
+    'Proxy request latency by tool, queueing and retries included.',
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+  ),
+  errors: new Counter('scrapeops_mcp_errors_total', 'Failed proxy requests by tool and error type.'),
+  retries: new Counter('scrapeops_mcp_retries_total', 'Retries made after retryable failures, by tool.'),
+  credits: new Counter('scrapeops_mcp_credits_estimated_total', 'Estimated credits spent by tool and target domain.'),
+};
+
+const metricDomains = new Set<string>();
+
+function metricDomain(url: string | undefined): string {
+  const domain = (url && profileDomain(url)) || 'unknown';
+  if (metricDomains.has(domain)) {
+    return domain;
+  }
+  if (metricDomains.size < METRICS_CONFIG.maxDomains) {
+    metricDomains.add(domain);
+    return domain;
+  }
+  return 'other';
+}
+
+/**
+ * Count a finished proxy request. Returns the result so proxyRequest can
+ * record and return in one step.
+ */
+function recordRequestMetrics(request: ProxyRequest, result: ProxyRequestResult): ProxyRequestResult {
+  const tool = request.toolName;
+  const domain = metricDomain(request.params.url);
+  const outcome = result.cache.status === 'hit' ? 'cache_hit' : result.success ? 'success' : 'error';
+  metrics.requests.inc({ tool, domain, outcome });
+  metrics.duration.observe({ tool }, result.durationMs / 1000);
+  if (!result.success) {
+    metrics.errors.inc({ tool, error_type: result.errorType || 'unknown' });
+  }
+  if (outcome !== 'cache_hit' && result.retriesAttempted) {
+    metrics.retries.inc({ tool }, result.retriesAttempted);
+  }
+  if (result.creditsEstimate > 0) {
+    metrics.credits.inc({ tool, domain }, result.creditsEstimate);
+  }
+  return result;
+}
+
+function renderMetrics(): string {
+  return `${Object.values(metrics).flatMap(metric => metric.render()).join('\n')}\n`;
+}
+
+/**
+ * Serve the metrics on a listener of their own, apart from the MCP endpoint,
+ * in either transport. It does not keep the process alive once the
+ * transport closes.
+ */
+async function startMetricsServer(): Promise<void> {
+  const metricsServer = http.createServer((req, res) => {
+    if (req.method === 'GET' && new URL(req.url || '/', 'http://localhost').pathname === METRICS_CONFIG.path) {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(renderMetrics());
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve, reject) => {
+    metricsServer.once('error', reject);
+    metricsServer.listen(METRICS_CONFIG.port, METRICS_CONFIG.host, resolve);
+  });
+  metricsServer.unref();
+  serverLogger.info(`Metrics: http://${METRICS_CONFIG.host}:${METRICS_CONFIG.port}${METRICS_CONFIG.path}`);
+}
+
+// ============================================================================
+// Domain Profiles
+// ============================================================================
+
+// Options that decide whether a site lets a request through, as opposed to
+// what the caller wants back (country, screenshot, wait, ...).
+const PROFILE_OPTION_KEYS = ['residential', 'mobile', 'premium', 'bypass_level', 'render_js'] as const;
+
+function profileDomain(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function profileOptions(options: UsedOptions): EscalationOptions {
+  const picked: Record<string, unknown> = {};
+  for (const key of PROFILE_OPTION_KEYS) {
+    if (options[key] !== undefined) {
+      picked[key] = options[key];
+    }
+  }
+  return picked as EscalationOptions;
+}
+
+/**
+ * Learned per-domain proxy settings: the last option combination that got a
+ * successful response, plus how often blocking errors happened since. Kept
+ * in memory and written to a JSON file after every change so it survives
+ * restarts. A success with cheaper options than the stored ones does not
+ * replace them: a request that got through basic once says little about the
+ * pages that needed residential or a bypass.
+ */
+class DomainProfileStore {
+  private profiles = new Map<string, DomainProfile>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string | undefined) {}
+
+  async load(): Promise<void> {
+    if (!this.path) return;
+    try {
+      const stored = JSON.parse(await readFile(this.path, 'utf8')) as DomainProfile[];
+      for (const profile of stored) {
+        this.profiles.set(profile.domain, profile);
+      }
+    } catch (error) {
+      // No store yet: start empty. Anything else is worth knowing about, since
+      // the next write replaces the file.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        serverLogger.warn('Could not load domain profiles; starting empty', {
+          path: this.path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  get(url: string): DomainProfile | undefined {
+    const domain = profileDomain(url);
+    return domain ? this.profiles.get(domain) : undefined;
+  }
+
+  list(): DomainProfile[] {
+    return [...this.profiles.values()].sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  async recordSuccess(url: string, options: UsedOptions): Promise<void> {
+    const domain = profileDomain(url);
+    if (!domain) return;
+    const learned = profileOptions(options);
+    const existing = this.profiles.get(domain);
+    if (existing && estimateCredits(learned).credits < estimateCredits(existing.options).credits) {
+      return;
+    }
+    const same = existing && JSON.stringify(existing.options) === JSON.stringify(learned);
+    this.profiles.set(domain, {
+      domain,
+      options: learned,
+      successes: same ? existing.successes + 1 : 1,
+      failures: 0,
+      last_success_at: new Date().toISOString(),
+    });
+    await this.persist();
+  }
+
+  async recordFailure(url: string, errorType: ErrorType): Promise<void> {
+    const existing = this.get(url);
+    if (!existing) return;
+    existing.failures += 1;
+    existing.last_failure_at = new Date().toISOString();
+    existing.last_error_type = errorType;
+    await this.persist();
+  }
+
+  async delete(domain: string): Promise<boolean> {
+    const deleted = this.profiles.delete(profileDomain(`https://${domain}`) || domain);
+    await this.persist();
+    return deleted;
+  }
+
+  async clear(): Promise<number> {
+    const count = this.profiles.size;
+    this.profiles.clear();
+    await this.persist();
+    return count;
+  }
+
+  // Writes are chained so concurrent requests never interleave file contents.
+  private persist(): Promise<void> {
+    const path = this.path;
+    if (!path) return Promise.resolve();
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, snapshot);
+      })
+      .catch(error => {
+        serverLogger.warn('Could not save domain profiles', {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return this.writing;
+  }
+}
+
+/**
+ * Per-user directory for state kept between runs, so it does not land in the
+ * working directory of whichever client started the server. Follows each
+ * platform's convention unless SCRAPEOPS_DATA_DIR is set.
+ */
+function userDataDir(): string {
+  if (process.env.SCRAPEOPS_DATA_DIR) {
+    return process.env.SCRAPEOPS_DATA_DIR;
+  }
+  const home = homedir();
+  if (process.platform === 'win32') {
+    return join(process.env.LOCALAPPDATA || join(home, 'AppData', 'Local'), 'scrapeops-mcp');
+  }
+  if (process.platform === 'darwin') {
+    return join(home, 'Library', 'Application Support', 'scrapeops-mcp');
+  }
+  return join(process.env.XDG_DATA_HOME || join(home, '.local', 'share'), 'scrapeops-mcp');
+}
+
+const DATA_DIR = userDataDir();
+
+const PROFILE_CONFIG = {
+  path: process.env.SCRAPEOPS_PROFILE_STORE || join(DATA_DIR, 'profiles.json'),
+};
+
+const profileStore = new DomainProfileStore(PROFILE_CONFIG.path === 'none' ? undefined : PROFILE_CONFIG.path);
+await profileStore.load();
+
+/**
+ * Add the learned profile for `url` to tool arguments when the caller asked
+ * for it. Options the caller set explicitly win over learned ones.
+ */
+function withLearnedProfile<T extends { use_learned_profile?: boolean }>(
+  params: T,
+  url: string
+): { params: T; profile?: DomainProfile } {
+  const profile = params.use_learned_profile ? profileStore.get(url) : undefined;
+  if (!profile) {
+    return { params };
+  }
+  return { params: { ...profile.options, ...params }, profile };
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * In-memory LRU cache. Map iteration order doubles as recency order: entries
+ * are re-inserted on read, so the first key is always the least recently used.
+ */
+class MemoryCache implements ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * On-disk cache storing one JSON file per key. Survives restarts, so repeated
+ * runs against the same URLs do not spend credits again.
+ *
+ * Each file's modification time is set to the entry's expiry. After a write,
+ * the directory listing alone is enough to remove expired entries and then,
+ * past `maxEntries`, those closest to expiring.
+ */
+class DiskCache implements ResponseCache {
+  constructor(private dir: string, private maxEntries: number) {}
+
+  private path(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(key), 'utf8')) as CacheEntry;
+    } catch (error) {
+      // A missing file is a plain miss; an unreadable or corrupt one is
+      // treated as a miss too, but reported.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        serverLogger.warn('Could not read cache entry; treating it as a miss', {
+          path: this.path(key),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.path(key), JSON.stringify(entry));
+      await utimes(this.path(key), new Date(entry.storedAt), new Date(entry.expiresAt));
+      await this.prune();
+    } catch (error) {
+      // The response was already paid for; failing to cache it should not
+      // fail the tool call.
+      serverLogger.warn('Could not write cache entry', {
+        path: this.path(key),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    const files = (await readdir(this.dir)).filter(name => name.endsWith('.json'));
+    const live: { path: string; expiresAt: number }[] = [];
+    for (const name of files) {
+      const path = join(this.dir, name);
+      // Another server sharing the directory may have removed it already.
+      const expiresAt = await stat(path).then(stats => stats.mtimeMs, () => undefined);
+      if (expiresAt === undefined) continue;
+      if (expiresAt <= now) {
+        await rm(path, { force: true });
+      } else {
+        live.push({ path, expiresAt });
+      }
+    }
+    live.sort((a, b) => a.expiresAt - b.expiresAt);
+    for (const { path } of live.slice(0, Math.max(live.length - this.maxEntries, 0))) {
+      await rm(path, { force: true });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+}
+
+const CACHE_CONFIG = {
+  backend: process.env.SCRAPEOPS_CACHE_BACKEND || 'memory',
+  dir: process.env.SCRAPEOPS_CACHE_DIR || join(DATA_DIR, 'cache'),
+  maxEntries: parseInt(process.env.SCRAPEOPS_CACHE_MAX_ENTRIES || '500', 10),
+  ttlSeconds: {
+    maps_web: parseInt(process.env.SCRAPEOPS_CACHE_TTL_MAPS_WEB || '300', 10),
+    extract_data: parseInt(process.env.SCRAPEOPS_CACHE_TTL_EXTRACT_DATA || '900', 10),
+    return_links: parseInt(process.env.SCRAPEOPS_CACHE_TTL_RETURN_LINKS || '900', 10),
+    // robots.txt lookups have their own cache.
+    robots_txt: 0,
+  } as Record<ProxyTool, number>,
+};
+
+function createResponseCache(): ResponseCache | undefined {
+  switch (CACHE_CONFIG.backend) {
+    case 'none':
+      return undefined;
+    case 'disk':
+      return new DiskCache(CACHE_CONFIG.dir, CACHE_CONFIG.maxEntries);
+    case 'memory':
+      return new MemoryCache(CACHE_CONFIG.maxEntries);
+    default:
+      throw new Error(`Invalid SCRAPEOPS_CACHE_BACKEND: "${CACHE_CONFIG.backend}". Use memory, disk or none.`);
+  }
+}
+
+const responseCache = createResponseCache();
+
+function normalizeUrlForCache(value: string): string {
+  try {
+    const parsed = new URL(value);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Build a cache key from the request params. The API key is excluded so the
+ * same page fetched with different keys shares an entry, values are
+ * stringified the way they are sent upstream, and keys are sorted so argument
+ * order does not matter.
+ */
+function buildCacheKey(toolName: ProxyTool, params: Partial<ScrapeOpsRequestParams>): string {
+  const normalized: Record<string, string> = {};
+  for (const key of Object.keys(params).sort()) {
+    if (key === 'api_key') continue;
+    const value = params[key as keyof ScrapeOpsRequestParams];
+    if (value === undefined || value === null || value === '') continue;
+    normalized[key] = key === 'url' ? normalizeUrlForCache(String(value)) : String(value);
+  }
+  return createHash('sha256').update(JSON.stringify([toolName, normalized])).digest('hex');
+}
+
+function extractionKind(params: Partial<ScrapeOpsRequestParams>): ExtractionKind | undefined {
+  if (params.llm_extract) return 'llm';
+  if (params.auto_extract) return 'auto';
+  return undefined;
+}
+
+/**
+ * Send a request through the shared pipeline: check the request policy, serve
+ * it from the response cache when allowed, otherwise reserve its estimated
+ * credits against the budgets, take a per-domain rate slot, call makeRequest
+ * and cache successful results under the tool's TTL.
+ */
+async function proxyRequest(request: ProxyRequest, log: Logger): Promise<ProxyRequestResult> {
+  const { toolName, apiKey, session, params, usedOptions, cache: mode } = request;
+  const ttlSeconds = CACHE_CONFIG.ttlSeconds[toolName];
+  // Responses to caller-supplied headers, cookies or bodies depend on them
+  // and may be personal, so they are never cached.
+  const useCache = responseCache !== undefined && mode !== 'bypass' && ttlSeconds > 0 && !request.forward;
+  const key = buildCacheKey(toolName, params);
+  const now = Date.now();
+  const cacheStatus = !useCache ? 'bypass' : mode === 'refresh' ? 'refresh' : 'miss';
+
+  const refuse = (violation: PolicyViolation): ProxyRequestResult => {
+    log.warn('Request refused by policy', { url: params.url, policy: violation });
+    return recordRequestMetrics(request, {
+      success: false,
+      error: `Blocked by the ${POLICY_LABELS[violation.policy]} policy for ${violation.domain}: ${violation.rule}.`,
+      errorType: 'policy_blocked',
+      retriesAttempted: 0,
+      policy: violation,
+      creditsEstimate: 0,
+      startedAt: now,
+      durationMs: Date.now() - now,
+      queueWaitMs: 0,
+      cache: { status: cacheStatus },
+    });
+  };
+
+  // Before the cache, so a newly denied domain is not served stale copies.
+  const violation = await checkPolicy(params.url, apiKey, session, log);
+  if (violation) {
+    return refuse(violation);
+  }
+
+  if (useCache && mode === 'use') {
+    const entry = await responseCache.get(key);
+    if (entry && entry.expiresAt > now) {
+      log.info('Serving response from cache', { url: params.url, tool: toolName });
+      return recordRequestMetrics(request, {
+        ...entry.result,
+        creditsEstimate: 0,
+        startedAt: now,
+        durationMs: Date.now() - now,
+        queueWaitMs: 0,
+        cache: {
+          status: 'hit',
+          age_seconds: Math.round((now - entry.storedAt) / 1000),
+          expires_in_seconds: Math.round((entry.expiresAt - now) / 1000),
+        },
+      });
+    }
+    if (entry) {
+      await responseCache.delete(key);
+    }
+  }
+
+  const { credits } = estimateCredits(usedOptions, extractionKind(params));
+  const exceeded = reserveCredits(apiKey, session, credits);
+  if (exceeded) {
+    log.warn('Request refused: credit budget exceeded', { url: params.url, budget: exceeded });
+    return recordRequestMetrics(request, {
+      success: false,
+      error: `Estimated cost of ${credits} credits exceeds the remaining ${BUDGET_SCOPE_LABELS[exceeded.scope]} budget (${exceeded.remaining} of ${exceeded.limit} credits left).`,
+      errorType: 'budget_exceeded',
+      retriesAttempted: 0,
+      budget: exceeded,
+      creditsEstimate: 0,
+      startedAt: now,
+      durationMs: Date.now() - now,
+      queueWaitMs: 0,
+      cache: { status: cacheStatus },
+    });
+  }
+
+  // Only once the budget allows the request, so a refused one uses no slot.
+  const rateViolation = checkDomainRate(params.url);
+  if (rateViolation) {
+    refundCredits(apiKey, session, credits);
+    return refuse(rateViolation);
+  }
+
+  const signal = toolCallContext.getStore()?.signal;
+  const limiter = limiterFor(apiKey);
+  let queueWaitMs = 0;
+  if (limiter) {
+    try {
+      queueWaitMs = await limiter.acquire(signal);
+    } catch {
+      refundCredits(apiKey, session, credits);
+      return recordRequestMetrics(request, {
+        success: false,
+        error: 'Request cancelled by the client while queued.',
+        errorType: 'cancelled',
+        retriesAttempted: 0,
+        creditsEstimate: 0,
+        startedAt: now,
+        durationMs: Date.now() - now,
+        queueWaitMs: Date.now() - now,
+        cache: { status: cacheStatus },
+      });
+    }
+    if (queueWaitMs > 0) {
+      log.info('Request waited for a rate limit slot', { url: params.url, queueWaitMs });
+    }
+  }
+
+  let result: RequestResult;
+  try {
+    result = await makeRequest(apiKey, params, log, {
+      signal,
+      timeoutMs: request.timeoutMs ?? TIMEOUT_CONFIG[toolName],
+      forward: request.forward,
+    });
+  } finally {
+    limiter?.release();
+  }
+  if (result.success) {
+    recordSpend(session, toolName, params.url, credits);
+  } else {
+    refundCredits(apiKey, session, credits);
+  }
+  if (request.learnProfile && params.url) {
+    if (result.success) {
+      await profileStore.recordSuccess(params.url, usedOptions);
+    } else if (ESCALATABLE_ERRORS.includes(result.errorType || 'unknown')) {
+      await profileStore.recordFailure(params.url, result.errorType || 'unknown');
+    }
+  }
+  if (useCache && result.success) {
+    await responseCache.set(key, { result, storedAt: now, expiresAt: now + ttlSeconds * 1000 });
+  }
+  return recordRequestMetrics(request, {
+    ...result,
+    creditsEstimate: result.success ? credits : 0,
+    startedAt: now,
+    durationMs: Date.now() - now,
+    queueWaitMs,
+    cache: { status: cacheStatus, expires_in_seconds: useCache && result.success ? ttlSeconds : undefined },
+  });
+}
+
+// ============================================================================
+// Escalation Ladder
+// ============================================================================
+
+/**
+ * Named ladder steps and the options each adds. Steps accumulate, so
+ * `residential` then `generic_level_2` retries with both; a later bypass
+ * level or premium tier replaces the earlier one.
+ */
+const ESCALATION_STEPS: Record<string, EscalationOptions> = {
+  basic: {},
+  render_js: { render_js: true },
+  residential: { residential: true },
+  mobile: { mobile: true },
+  premium: { premium: 'level_1' },
+  premium_level_2: { premium: 'level_2' },
+  generic_level_1: { bypass_level: 'generic_level_1' },
+  generic_level_2: { bypass_level: 'generic_level_2' },
+  generic_level_3: { bypass_level: 'generic_level_3' },
+  generic_level_4: { bypass_level: 'generic_level_4' },
+  cloudflare_level_1: { bypass_level: 'cloudflare_level_1' },
+  cloudflare_level_2: { bypass_level: 'cloudflare_level_2' },
+  cloudflare_level_3: { bypass_level: 'cloudflare_level_3' },
+  datadome: { bypass_level: 'datadome' },
+  incapsula: { bypass_level: 'incapsula' },
+  perimeterx: { bypass_level: 'perimeterx' },
+};
+
+const ESCALATION_STEP_NAMES = Object.keys(ESCALATION_STEPS) as [string, ...string[]];
+
+function parseEscalationLadder(raw: string | undefined): string[] {
+  const ladder = (raw || '').split(',').map(step => step.trim()).filter(Boolean);
+  const unknown = ladder.filter(step => !(step in ESCALATION_STEPS));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid SCRAPEOPS_ESCALATION_LADDER: unknown step(s) ${unknown.join(', ')}. Valid steps: ${ESCALATION_STEP_NAMES.join(', ')}.`);
+  }
+  return ladder;
+}
+
+// Escalation spends credits without asking, so only the operator can turn it
+// on: a per-call ladder is accepted only with SCRAPEOPS_ESCALATION_PER_CALL,
+// and then only within the server ladder (when one is set) and ceiling.
+const ESCALATION_CONFIG = {
+  ladder: parseEscalationLadder(process.env.SCRAPEOPS_ESCALATION_LADDER),
+  maxCredits: parseInt(process.env.SCRAPEOPS_ESCALATION_MAX_CREDITS || '100', 10),
+  allowPerCall: process.env.SCRAPEOPS_ESCALATION_PER_CALL === 'true',
+};
+
+// Failures a stronger proxy setup can get past. Anything else stops the ladder.
+const ESCALATABLE_ERRORS: ErrorType[] = ['forbidden', 'rate_limited'];
+
+/**
+ * Steps of a per-call ladder the operator has not approved, or every step
+ * when per-call ladders are off.
+ */
+function unapprovedEscalationSteps(ladder: string[]): string[] {
+  if (!ESCALATION_CONFIG.allowPerCall) return ladder;
+  if (ESCALATION_CONFIG.ladder.length === 0) return [];
+  return ladder.filter(step => !ESCALATION_CONFIG.ladder.includes(step));
+}
+
+/**
+ * Pick the pre-approved ladder for a call: the one passed with the call when
+ * the operator allows per-call ladders (its ceiling capped at the server's),
+ * else the server default. Without either, failures keep asking for
+ * permission. Calls are validated first, so a ladder with unapproved steps
+ * never gets here.
+ */
+function resolveEscalationPolicy(requested: { ladder: string[]; max_credits: number } | undefined): EscalationPolicy | undefined {
+  if (requested && ESCALATION_CONFIG.allowPerCall) {
+    return { ladder: requested.ladder, maxCredits: Math.min(requested.max_credits, ESCALATION_CONFIG.maxCredits) };
+  }
+  if (ESCALATION_CONFIG.ladder.length > 0) {
+    return { ladder: ESCALATION_CONFIG.ladder, maxCredits: ESCALATION_CONFIG.maxCredits };
+  }
+  return undefined;
+}
+
+function describeAttempt(step: string, request: ProxyRequest, result: ProxyRequestResult, credits: number): EscalationAttempt {
+  return {
+    step,
+    options_used: request.usedOptions,
+    success: result.success,
+    status_code: result.statusCode,
+    error_type: result.errorType,
+    credits_estimate: credits,
+  };
+}
+
+/**
+ * Send a request and, when a ladder is pre-approved, walk it on 403/429:
+ * each step's options are added and the request is re-sent until it
+ * succeeds, the ladder runs out, or the next attempt would take the
+ * estimated credits of all attempts over the ceiling.
+ *
+ * `buildStep` rebuilds the tool's request with the extra options, returning
+ * undefined when they conflict with the caller's arguments.
+ */
+async function proxyRequestWithEscalation(
+  request: ProxyRequest,
+  policy: EscalationPolicy | undefined,
+  buildStep: (options: EscalationOptions) => Pick<ProxyRequest, 'params' | 'usedOptions'> | undefined,
+  log: Logger
+): Promise<EscalationOutcome> {
+  let result = await proxyRequest(request, log);
+  if (!policy || result.success || !ESCALATABLE_ERRORS.includes(result.errorType || 'unknown')) {
+    return { result, usedOptions: request.usedOptions };
+  }
+
+  const estimate = (attempt: ProxyRequest) =>
+    estimateCredits(attempt.usedOptions, extractionKind(attempt.params)).credits;
+  let current = request;
+  let options: EscalationOptions = {};
+  let total = estimate(request);
+  let ceilingReached = false;
+  const attempts: EscalationAttempt[] = [describeAttempt('initial', request, result, total)];
+
+  for (const step of policy.ladder) {
+    if (result.success || !ESCALATABLE_ERRORS.includes(result.errorType || 'unknown')) {
+      break;
+    }
+    const stepOptions = { ...options, ...ESCALATION_STEPS[step] };
+    const built = buildStep(stepOptions);
+    if (!built || JSON.stringify(built.usedOptions) === JSON.stringify(current.usedOptions)) {
+      continue;
+    }
+    const next: ProxyRequest = { ...request, ...built };
+    const credits = estimate(next);
+    if (total + credits > policy.maxCredits) {
+      ceilingReached = true;
+      break;
+    }
+
+    log.info('Escalating request', { url: request.params.url, step, options: built.usedOptions });
+    options = stepOptions;
+    current = next;
+    total += credits;
+    result = await proxyRequest(current, log);
+    attempts.push(describeAttempt(step, current, result, credits));
+  }
+
+  let stoppedReason: EscalationReport['stopped_reason'] = 'ladder_exhausted';
+  if (result.success) {
+    stoppedReason = 'succeeded';
+  } else if (ceilingReached) {
+    stoppedReason = 'credit_ceiling';
+  } else if (!ESCALATABLE_ERRORS.includes(result.errorType || 'unknown')) {
+    stoppedReason = 'not_escalatable';
+  }
+
+  return {
+    result,
+    usedOptions: current.usedOptions,
+    escalation: {
+      attempts,
+      max_credits: policy.maxCredits,
+      credits_estimate_total: total,
+      stopped_reason: stoppedReason,
+    },
+  };
+}
+
+function validateParams(params: ValidationParams): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (params.render_js === false && params.wait_for) {
+    errors.push('Conflict: `wait_for` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `wait_for`.');
+  }
+
+  if (params.render_js === false && params.scroll) {
+    errors.push('Conflict: `scroll` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `scroll`.');
+  }
+
+  if (params.render_js === false && params.screenshot) {
+    errors.push('Conflict: `screenshot` requires JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `screenshot`.');
+  }
+
+  if (params.render_js === false && params.actions) {
+    errors.push('Conflict: `actions` run in a browser and require JavaScript rendering, but `render_js` is explicitly set to false. Remove `render_js: false` or remove `actions`.');
+  }
+
+  if (params.escalation) {
+    const unapproved = unapprovedEscalationSteps(params.escalation.ladder);
+    if (!ESCALATION_CONFIG.allowPerCall) {
+      errors.push('Per-call `escalation` is disabled on this server; escalation can only be pre-approved by the operator. Remove `escalation` and ask the user before retrying with advanced options.');
+    } else if (unapproved.length > 0) {
+      errors.push(`\`escalation\` step(s) ${unapproved.join(', ')} are not approved on this server. Approved steps: ${ESCALATION_CONFIG.ladder.join(', ')}.`);
+    } else if (params.escalation.max_credits > ESCALATION_CONFIG.maxCredits) {
+      warnings.push(`Warning: \`escalation.max_credits\` is capped at the server ceiling of ${ESCALATION_CONFIG.maxCredits} credits.`);
+    }
+  }
+
+  if (params.actions && params.method && params.method !== 'GET') {
+    errors.push(`Conflict: \`actions\` run in a browser that loads the page with GET; \`method: "${params.method}"\` cannot be combined with them. Submit forms with \`type\` and \`click\` steps instead.`);
+  }
+
+  const screenshotOptions = [
+    params.screenshot_format && params.screenshot_format !== 'png' && 'screenshot_format',
+    params.screenshot_max_width && 'screenshot_max_width',
+    params.screenshot_max_bytes && 'screenshot_max_bytes',
+    params.screenshot_delivery && params.screenshot_delivery !== 'image' && 'screenshot_delivery',
+  ].filter(Boolean);
+  if (screenshotOptions.length > 0 && !params.screenshot) {
+    errors.push(`${screenshotOptions.map(option => `\`${option}\``).join(', ')} ${screenshotOptions.length === 1 ? 'only applies' : 'only apply'} when \`screenshot: true\` is set.`);
+  }
+
+  if (params.optimize_request && params.bypass_level) {
+    warnings.push('Warning: Using `optimize_request` with `bypass_level` may cause conflicts. The optimizer may override your bypass settings.');
+  }
+
+  if (params.optimize_request && params.premium) {
+    warnings.push('Warning: Using `optimize_request` with `premium` may cause conflicts. The optimizer may override your premium settings.');
+  }
+
+  if (params.session_number !== undefined) {
+    if (params.session_number < 1 || params.session_number > 10000) {
+      errors.push('Invalid `session_number`: must be between 1 and 10000.');
+    }
+  }
+
+  if (params.max_request_cost && !params.optimize_request) {
+    errors.push('`max_request_cost` requires `optimize_request: true` to be set.');
+  }
+
+  if (params.custom_schema && params.fields) {
+    errors.push('Conflict: provide either `custom_schema` or `fields`, not both.');
+  }
+
+  if (params.custom_schema) {
+    const problems = jsonSchemaProblems(params.custom_schema);
+    if (problems.length > 0) {
+      errors.push(`Invalid \`custom_schema\`: ${problems.join('; ')}.`);
+    }
+  }
+
+  if ((params.custom_schema || params.fields) && params.mode !== 'llm') {
+    errors.push('`custom_schema` and `fields` require `mode: "llm"`.');
+  }
+
+  if ((params.custom_schema || params.fields) && params.data_schema) {
+    errors.push('Conflict: `data_schema` selects a built-in template, which cannot be combined with `custom_schema` or `fields`. Remove one of them.');
+  }
+
+  if (params.mode === 'selectors' && !params.selectors) {
+    errors.push('`mode: "selectors"` requires a `selectors` map of field name to CSS selector or XPath.');
+  }
+
+  if (params.selectors && params.mode !== 'selectors') {
+    errors.push('`selectors` is only used with `mode: "selectors"`.');
+  }
+
+  if (params.mode === 'selectors' && params.data_schema) {
+    errors.push('Conflict: `data_schema` is an LLM template and cannot be used with `mode: "selectors"`.');
+  }
+
+  const method = params.method ?? 'GET';
+  if (params.body !== undefined && method === 'GET') {
+    errors.push('`body` requires `method: "POST"` or `method: "PUT"`.');
+  }
+
+  if (params.body_format && params.body === undefined) {
+    errors.push('`body_format` only applies when a `body` is given.');
+  }
+
+  if (
+    params.body_format === 'form' &&
+    params.body !== undefined &&
+    typeof params.body !== 'string' &&
+    Object.values(params.body).some(value => value !== null && typeof value === 'object')
+  ) {
+    errors.push('`body_format: "form"` needs a flat object of field names to values. Send nested data as JSON instead.');
+  }
+
+  const headerNames = Object.keys(params.headers || {}).map(name => name.toLowerCase());
+  if (params.cookies && headerNames.includes('cookie')) {
+    errors.push('Conflict: cookies were given both in `cookies` and as a `Cookie` header. Use one of them.');
+  }
+
+  const proxyManaged = headerNames.filter(name => ['host', 'content-length', 'connection', 'transfer-encoding'].includes(name));
+  if (proxyManaged.length > 0) {
+    errors.push(`${proxyManaged.map(name => `\`${name}\``).join(', ')} cannot be set in \`headers\`: the proxy sets ${proxyManaged.length === 1 ? 'it' : 'them'}.`);
+  }
+
+  const invalidHeaders = Object.entries({ ...params.headers, ...params.cookies })
+    .filter(([name, value]) => !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name) || /[\r\n]/.test(value))
+    .map(([name]) => name);
+  if (invalidHeaders.length > 0) {
+    errors.push(`Invalid header or cookie: ${invalidHeaders.map(name => `\`${name}\``).join(', ')}. Names must be HTTP tokens and values cannot contain line breaks.`);
+  }
+
+  if (params.keep_headers === false && (params.headers || params.cookies)) {
+    errors.push('Conflict: `headers` and `cookies` are forwarded with keep_headers, but `keep_headers` is explicitly set to false. Remove `keep_headers: false`.');
+  }
+
+  if ((params.custom_schema || params.fields) && params.response_format === 'markdown') {
+    errors.push('`custom_schema` and `fields` require `response_format: "json"` so the result can be validated.');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+// Errors raised by the server itself rather than reported by ScrapeOps. The
+// anti-bot diagnostic does not apply to them.
+const LOCAL_ERROR_TYPES: ErrorType[] = ['budget_exceeded', 'policy_blocked', 'timeout', 'cancelled', 'response_too_large', 'processing_failed'];
+
+/**
+ * Generate MCP-compliant error response that properly asks for user permission
+ * before suggesting advanced parameters.
+ * 
+ * Key principle: NEVER auto-suggest retry with advanced params.
+ * Instead, explain what happened and ASK for permission.
+ */
+function buildErrorResponse(
+  url: string,
+  error: string,
+  errorType: ErrorType | undefined,
+  statusCode: number | undefined,
+  usedOptions: UsedOptions,
+  retriesAttempted: number = 0,
+  extra: Partial<ErrorResponse> = {}
+): ErrorResponse {
+  const usedAdvancedParams = hasAdvancedParams(usedOptions);
+  const wasBasicRequest = usedAdvancedParams.length === 0;
+
+  // A domain that was blocked now but has worked before with other options:
+  // suggest those instead of the generic next step.
+  const profile = profileStore.get(url);
+  const learnedProfile =
+    profile &&
+    ESCALATABLE_ERRORS.includes(errorType || 'unknown') &&
+    Object.entries(profile.options).some(([key, value]) => usedOptions[key as keyof UsedOptions] !== value)
+      ? profile
+      : undefined;
+
+  let userMessage: string;
+  let canRetryWithAdvanced: boolean = false;
+  let suggestedAdvancedParams: SuggestedAdvancedParams = {};
+
+  switch (errorType) {
+    case 'auth_failed':
+      userMessage = 'Authentication failed. Please verify your SCRAPEOPS_API_KEY is correct and has not expired.';
+      break;
+
+    case 'forbidden':
+      userMessage = wasBasicRequest
+        ? 'The target website blocked the request (HTTP 403). This often happens with protected sites.'
+        : `The request was blocked even with advanced options: ${usedAdvancedParams.join(', ')}.`;
+      canRetryWithAdvanced = wasBasicRequest;
+      suggestedAdvancedParams = {
+        residential: true,
+        bypass_level: 'generic_level_2',
+      };
+      break;
+
+    case 'rate_limited':
       userMessage = 'Rate limited by the target website (HTTP 429). The site is limiting request frequency.';
       canRetryWithAdvanced = wasBasicRequest;
       suggestedAdvancedParams = {
         residential: true,
       };
-      break;
+      break;
+
+    case 'account_rate_limited':
+      userMessage = 'Your ScrapeOps account hit its plan\'s concurrency or rate limit (HTTP 429). This is not the target website blocking you, and advanced options will not help. Wait and retry, or lower SCRAPEOPS_MAX_CONCURRENT_REQUESTS / SCRAPEOPS_RATE_LIMIT_PER_SECOND to match your plan.';
+      break;
+
+    case 'not_found':
+      userMessage = 'Page not found (HTTP 404). Please verify the URL is correct and the page exists.';
+      break;
+
+    case 'server_error':
+      userMessage = `Server error occurred (HTTP 500). Retried ${retriesAttempted} time(s) but the issue persists.`;
+      canRetryWithAdvanced = wasBasicRequest;
+      suggestedAdvancedParams = {
+        render_js: true,
+      };
+      break;
+
+    case 'bad_gateway':
+    case 'service_unavailable':
+      userMessage = `Service temporarily unavailable (HTTP ${statusCode}). This is usually a temporary issue.`;
+      break;
+
+    case 'network_error':
+      userMessage = 'Network connection error. Please check your internet connection and try again.';
+      break;
+
+    case 'budget_exceeded':
+      userMessage = `${error} Raise the budget or ask the user before spending more credits.`;
+      break;
+
+    case 'policy_blocked':
+      userMessage = extra.policy?.policy === 'domain_rate_limit'
+        ? `${error} Wait before sending more requests to this domain.`
+        : `${error} The server operator does not allow this request, and other options will not change that.`;
+      break;
+
+    case 'timeout':
+      userMessage = `${error} The upstream request was cancelled. Slow pages (render_js with a long \`wait\`) may need a higher \`timeout_ms\`.`;
+      break;
+
+    case 'cancelled':
+      userMessage = `${error} The upstream request was stopped; nothing needs retrying unless the user asks again.`;
+      break;
+
+    case 'processing_failed':
+      userMessage = `${getErrorMessage('processing_failed')} ${error} The page was fetched; other scraping options will not change this.`;
+      break;
+
+    case 'response_too_large':
+      userMessage = `${error} Other options will not make it smaller; fetch a more specific URL.`;
+      break;
+
+    default:
+      userMessage = error || 'An unknown error occurred.';
+      canRetryWithAdvanced = wasBasicRequest;
+  }
+
+  const response: ErrorResponse = {
+    success: false,
+    url,
+    error: userMessage,
+    error_type: errorType || 'unknown',
+    status_code: statusCode,
+    retries_attempted: retriesAttempted,
+    options_used: wasBasicRequest ? 'none (basic request with default settings)' : usedOptions,
+    ...extra,
+  };
+
+  if (learnedProfile) {
+    canRetryWithAdvanced = true;
+    suggestedAdvancedParams = { ...learnedProfile.options };
+  }
+
+  if (canRetryWithAdvanced && Object.keys(suggestedAdvancedParams).length > 0) {
+    const additionalCredits =
+      estimateCredits({ ...usedOptions, ...suggestedAdvancedParams }).credits - estimateCredits(usedOptions).credits;
+    response.permission_request = {
+      message: learnedProfile
+        ? '⚠️ REQUEST FOR PERMISSION: The request failed. Earlier requests to this domain succeeded with the options below, which may consume more API credits.'
+        : '⚠️ REQUEST FOR PERMISSION: The basic request failed. I can retry with advanced scraping options that may help, but they will consume more API credits.',
+      question: 'Would you like me to retry with the following advanced options?',
+      suggested_options: suggestedAdvancedParams,
+      ...(learnedProfile && {
+        learned_profile: {
+          domain: learnedProfile.domain,
+          successes: learnedProfile.successes,
+          last_success_at: learnedProfile.last_success_at,
+        },
+      }),
+      estimated_additional_cost: `Approximately ${Math.max(additionalCredits, 0)} additional credits per request`,
+      action_required: 'Please confirm by saying "yes, retry with advanced options" or specify which options you want to use.',
+    };
+  } else if (!wasBasicRequest && !LOCAL_ERROR_TYPES.includes(errorType || 'unknown')) {
+    response.diagnostic = {
+      message: 'Advanced options were already used but the request still failed.',
+      tried_options: usedAdvancedParams,
+      possible_causes: [
+        'The target website has very strong anti-bot protection',
+        'The URL may be incorrect or the page may not exist',
+        'The website may be experiencing issues',
+      ],
+      recommendations: [
+        'Verify the URL is correct and accessible in a browser',
+        'Try a different approach or target URL',
+        'Contact ScrapeOps support if the issue persists',
+      ],
+    };
+  }
+
+  return redactValue(response);
+}
+
+function asText(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight. Results
+ * keep the order of `items`.
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Convert a URL glob to a RegExp. `**` matches anything, `*` anything but a
+ * slash and `?` a single character.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '.';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+const cacheModeSchema = z
+  .enum(['use', 'bypass', 'refresh'])
+  .optional()
+  .default('use')
+  .describe('Response cache behavior: "use" returns a cached copy of an identical recent request when available (no credits spent), "bypass" skips the cache, "refresh" fetches a fresh copy and updates the cache');
+
+const outputFormatSchema = z
+  .enum(['html', 'markdown', 'text', 'readable'])
+  .optional()
+  .default('html')
+  .describe('Format of returned page content: "html" (raw, default), "markdown" (converted, scripts/styles removed), "text" (plain text only), "readable" (main article content as markdown, nav/ads/boilerplate stripped). Conversion happens locally and costs no credits');
+
+const timeoutSchema = z
+  .number()
+  .int()
+  .min(1000)
+  .max(600000)
+  .optional()
+  .describe('Give up after this many milliseconds, retries included, and cancel the upstream request. Defaults to the server\'s per-tool timeout');
+
+const learnedProfileSchema = z
+  .boolean()
+  .optional()
+  .describe('Apply the proxy options that last worked for this domain (see domain_profiles). Options set explicitly in this call take precedence');
+
+const escalationSchema = z
+  .object({
+    ladder: z
+      .array(z.enum(ESCALATION_STEP_NAMES))
+      .min(1)
+      .describe('Steps to try in order, e.g. ["residential", "generic_level_2", "cloudflare_level_2", "premium"]. Each step adds its options to the previous ones'),
+    max_credits: z
+      .number()
+      .int()
+      .min(1)
+      .describe('Ceiling on the estimated credits of all attempts together, including the first'),
+  })
+  .optional()
+  .describe('Pre-approved escalation ladder. Rejected unless the server operator has enabled per-call escalation; steps must be within the server ladder, if one is set, and max_credits is capped at the server ceiling. ONLY set this when the user has explicitly approved automatic escalation. On HTTP 403/429 the request is retried with each step in turn until it succeeds or the next attempt would exceed max_credits; every attempt is reported. Defaults to the server-configured ladder, if any');
+
+// ============================================================================
+// Content Conversion
+// ============================================================================
+
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg, canvas, iframe, object, embed, link, meta';
+
+const BLOCK_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIELDSET',
+  'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER',
+  'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TR', 'UL',
+]);
+
+function createTurndown(): TurndownService {
+  return new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+  });
+}
+
+/**
+ * Parse HTML and drop everything that never carries readable content. Link
+ * and image URLs are made absolute so converted output stays usable.
+ */
+function parseContentDocument(html: string, baseUrl: string): Document {
+  const { document } = new JSDOM(html, { url: baseUrl }).window;
+  document.querySelectorAll(NON_CONTENT_SELECTOR).forEach(el => el.remove());
+  document.querySelectorAll('a[href]').forEach(el => {
+    el.setAttribute('href', (el as HTMLAnchorElement).href);
+  });
+  document.querySelectorAll('img[src]').forEach(el => {
+    el.setAttribute('src', (el as HTMLImageElement).src);
+  });
+  return document;
+}
+
+function nodeToText(node: Node): string {
+  if (node.nodeType === node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  const inner = Array.from(node.childNodes).map(nodeToText).join('');
+  return BLOCK_ELEMENTS.has(node.nodeName) ? `\n${inner}\n` : inner;
+}
+
+function tidyText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Convert raw HTML to the requested output format.
+ */
+function convertHtml(html: string, format: OutputFormat, baseUrl: string): string {
+  if (format === 'html') {
+    return html;
+  }
+
+  const document = parseContentDocument(html, baseUrl);
+
+  if (format === 'text') {
+    return tidyText(nodeToText(document.body || document.documentElement));
+  }
+
+  if (format === 'readable') {
+    const article = new Readability(document.cloneNode(true) as Document).parse();
+    if (article?.content) {
+      const body = createTurndown().turndown(article.content);
+      return article.title ? `# ${article.title}\n\n${body}` : body;
+    }
+  }
+
+  return createTurndown().turndown(document.body || document.documentElement);
+}
+
+/**
+ * Cap content at `maxChars`, leaving a marker that says how much was cut so
+ * the model knows the page continues.
+ */
+function truncateOutput(text: string, maxChars: number | undefined): string {
+  if (!maxChars || text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}\n\n[... truncated: showing ${maxChars} of ${text.length} characters. Increase max_output_chars to see more ...]`;
+}
+
+/**
+ * Render proxy response data as page content. Only HTML bodies are converted;
+ * JSON responses are passed through as text.
+ */
+function formatContent(
+  data: ScrapeOpsResponse | string | undefined,
+  format: OutputFormat,
+  baseUrl: string,
+  maxChars?: number
+): string {
+  const content = typeof data === 'string' ? convertHtml(data, format, baseUrl) : asText(data);
+  return truncateOutput(content, maxChars);
+}
+
+// ============================================================================
+// Screenshot Processing
+// ============================================================================
+
+const SCREENSHOT_DIR = process.env.SCRAPEOPS_SCREENSHOT_DIR || join(tmpdir(), 'scrapeops-mcp-screenshots');
+
+const SCREENSHOT_MIME_TYPES = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+} as const;
+
+// Quality steps tried, in order, when a lossy screenshot is over max bytes.
+const SCREENSHOT_QUALITY_STEPS = [85, 70, 55, 40];
+
+async function encodeScreenshot(
+  source: Buffer,
+  format: ScreenshotOptions['format'],
+  width: number | undefined,
+  quality: number
+): Promise<{ data: Buffer; info: OutputInfo }> {
+  let image = sharp(source);
+  if (width) {
+    image = image.resize({ width, withoutEnlargement: true });
+  }
+  switch (format) {
+    case 'jpeg':
+      image = image.jpeg({ quality, mozjpeg: true });
+      break;
+    case 'webp':
+      image = image.webp({ quality });
+      break;
+    default:
+      image = image.png({ compressionLevel: 9 });
+  }
+  return image.toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Resize and re-encode a base64 screenshot. When `maxBytes` is set, lossy
+ * formats first step down in quality, then every format shrinks in width
+ * until the image fits.
+ */
+async function processScreenshot(base64: string, options: ScreenshotOptions): Promise<ProcessedScreenshot> {
+  const source = Buffer.from(base64, 'base64');
+  const metadata = await sharp(source).metadata();
+  let width = options.maxWidth && metadata.width ? Math.min(options.maxWidth, metadata.width) : undefined;
+  const qualities = options.format === 'png' ? [100] : SCREENSHOT_QUALITY_STEPS;
+
+  let encoded = await encodeScreenshot(source, options.format, width, qualities[0]);
+  for (let attempt = 0; options.maxBytes && encoded.data.length > options.maxBytes && attempt < 12; attempt++) {
+    const quality = qualities[attempt + 1];
+    if (quality === undefined) {
+      width = Math.max(Math.floor((width || encoded.info.width) * 0.75), 1);
+    }
+    encoded = await encodeScreenshot(source, options.format, width, quality ?? qualities[qualities.length - 1]);
+  }
+
+  return {
+    buffer: encoded.data,
+    mimeType: SCREENSHOT_MIME_TYPES[options.format],
+    format: options.format,
+    width: encoded.info.width,
+    height: encoded.info.height,
+    bytes: encoded.data.length,
+    original_bytes: source.length,
+  };
+}
+
+async function saveScreenshot(screenshot: ProcessedScreenshot, pageUrl: string): Promise<string> {
+  await mkdir(SCREENSHOT_DIR, { recursive: true });
+  const host = new URL(pageUrl).hostname.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const extension = screenshot.format === 'jpeg' ? 'jpg' : screenshot.format;
+  const path = join(SCREENSHOT_DIR, `${host}-${Date.now()}.${extension}`);
+  await writeFile(path, screenshot.buffer);
+  return path;
+}
+
+function describeScreenshot(screenshot: ProcessedScreenshot): Record<string, unknown> {
+  return {
+    format: screenshot.format,
+    width: screenshot.width,
+    height: screenshot.height,
+    bytes: screenshot.bytes,
+    ...(screenshot.bytes !== screenshot.original_bytes && { original_bytes: screenshot.original_bytes }),
+  };
+}
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+const STRUCTURED_OUTPUT_DEFAULT = process.env.SCRAPEOPS_STRUCTURED_OUTPUT === 'true';
+
+const STRUCTURED_TOOLS = ['maps_web', 'extract_data', 'return_links'];
+
+const structuredOutputSchema = z
+  .boolean()
+  .optional()
+  .describe('Return a consistent JSON envelope (url, final_url, status codes, headers, content, content_type, options_used, credits_estimate, timing) that is also sent as MCP structured content. Always on when the server runs with SCRAPEOPS_STRUCTURED_OUTPUT=true');
+
+const responseEnvelopeSchema = z.object({
+  success: z.boolean(),
+  tool: z.string(),
+  url: z.string(),
+  final_url: z.string().optional(),
+  status_code: z.number().optional(),
+  initial_status_code: z.number().optional(),
+  final_status_code: z.number().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  content: z.unknown(),
+  content_type: z.enum(['html', 'markdown', 'text', 'json', 'image']).nullable(),
+  options_used: z.record(z.string(), z.unknown()),
+  credits_estimate: z.number(),
+  cache: z.looseObject({ status: z.string() }),
+  timing: z.object({
+    started_at: z.string(),
+    duration_ms: z.number(),
+    queue_wait_ms: z.number(),
+  }),
+  warnings: z.array(z.string()).optional(),
+  details: z.record(z.string(), z.unknown()).optional(),
+  error: z.looseObject({ error: z.string() }).optional(),
+});
+
+type RequestHandler = (request: unknown, extra: unknown) => Promise<Record<string, unknown>>;
+
+// The parts of the MCP SDK server behind a FastMCP session that the hooks use.
+interface SessionServer {
+  _requestHandlers?: Map<string, RequestHandler>;
+}
+
+// Warn once, not for every session, when the hooks cannot be installed.
+let sessionHooksWarned = false;
+
+/**
+ * FastMCP only forwards text and image content from tools and does not pass
+ * on the request's AbortSignal. Wrap the session's tools/call handler so each
+ * call gets a request ID for logging, so the signal is available to
+ * proxyRequest, so an envelope recorded by the tool
+ * is attached as `structuredContent`, and tools/list so the envelope schema is
+ * declared as `outputSchema` when structured output is on by default.
+ */
+function installSessionHooks(session: FastMCPSession): void {
+  const sessionServer = session.server as SessionServer;
+  const handlers = sessionServer._requestHandlers;
+  const callTool = handlers?.get('tools/call');
+  const listTools = handlers?.get('tools/list');
+  // The handler map is private to the MCP SDK. package.json pins the
+  // firecrawl-fastmcp release (and with it the SDK) these hooks were built on.
+  if (!handlers || !callTool || !listTools) {
+    if (!sessionHooksWarned) {
+      sessionHooksWarned = true;
+      serverLogger.warn('MCP session hooks could not be installed: the SDK no longer exposes its request handlers. Structured content, request IDs and cancellation are disabled. Check the firecrawl-fastmcp version', {
+        structured_output_default: STRUCTURED_OUTPUT_DEFAULT,
+      });
+    }
+    return;
+  }
+
+  handlers.set('tools/call', (request, extra) => {
+    const context: ToolCallContext = {
+      requestId: randomUUID(),
+      signal: (extra as { signal?: AbortSignal } | undefined)?.signal,
+    };
+    return toolCallContext.run(context, async () => {
+      const result = await callTool(request, extra);
+      return context.structuredContent ? { ...result, structuredContent: context.structuredContent } : result;
+    });
+  });
+
+  if (STRUCTURED_OUTPUT_DEFAULT) {
+    const outputSchema = z.toJSONSchema(responseEnvelopeSchema, { target: 'draft-7' });
+    delete outputSchema.$schema;
+    handlers.set('tools/list', async (request, extra) => {
+      const result = await listTools(request, extra);
+      const tools = result.tools as { name: string }[];
+      return {
+        ...result,
+        tools: tools.map(tool => (STRUCTURED_TOOLS.includes(tool.name) ? { ...tool, outputSchema } : tool)),
+      };
+    });
+  }
+}
+
+// FastMCP emits `connect` only once a session has finished setting up, by
+// which time the client may already have called tools, and never for
+// stateless HTTP. Install the hooks as each session connects instead.
+const connectSession = FastMCPSession.prototype.connect;
+FastMCPSession.prototype.connect = function (this: FastMCPSession, ...args: Parameters<typeof connectSession>) {
+  installSessionHooks(this);
+  return connectSession.apply(this, args);
+};
+
+function useStructuredOutput(requested: boolean | undefined): boolean {
+  return STRUCTURED_OUTPUT_DEFAULT || requested === true;
+}
+
+function buildEnvelope(
+  tool: string,
+  url: string,
+  usedOptions: UsedOptions,
+  result: ProxyRequestResult | undefined,
+  body: Pick<ResponseEnvelope, 'content' | 'content_type' | 'details' | 'warnings' | 'error'>
+): ResponseEnvelope {
+  const data = typeof result?.data === 'object' ? result.data : undefined;
+  const envelope: ResponseEnvelope = {
+    success: result?.success === true && !body.error,
+    tool,
+    url,
+    final_url: typeof data?.url === 'string' ? data.url : undefined,
+    status_code: result?.statusCode,
+    initial_status_code: data?.initial_status_code,
+    final_status_code: data?.final_status_code,
+    headers: result?.headers,
+    content: body.content,
+    content_type: body.content_type,
+    options_used: usedOptions,
+    credits_estimate: result?.creditsEstimate ?? 0,
+    cache: result?.cache ?? { status: 'bypass' },
+    timing: {
+      started_at: new Date(result?.startedAt ?? Date.now()).toISOString(),
+      duration_ms: result?.durationMs ?? 0,
+      queue_wait_ms: result?.queueWaitMs ?? 0,
+    },
+    warnings: body.warnings?.length ? body.warnings : undefined,
+    details: body.details && Object.keys(body.details).length > 0 ? body.details : undefined,
+    error: body.error,
+  };
+  // Failures are masked like buildErrorResponse masks them; a page is left
+  // as the target sent it.
+  return body.error ? redactValue(envelope) : envelope;
+}
+
+/**
+ * Return an envelope as the tool result: a JSON text block for clients that
+ * only read content, plus the structured content recorded for the
+ * tools/call hook. `attachments` (e.g. a screenshot image) go first.
+ */
+function envelopeResult(envelope: ResponseEnvelope, attachments: Content[] = []): ContentResult {
+  const context = toolCallContext.getStore();
+  if (context) {
+    context.structuredContent = envelope;
+  }
+  return {
+    content: [...attachments, { type: 'text', text: JSON.stringify(envelope, null, 2) }],
+  };
+}
+
+function envelopeContentType(data: unknown, format: OutputFormat = 'html'): EnvelopeContentType {
+  if (typeof data !== 'string') {
+    return 'json';
+  }
+  return format === 'readable' ? 'markdown' : format;
+}
+
+function validationFailure(url: string, errors: string[]): ValidationFailure {
+  return {
+    success: false,
+    url,
+    error: 'Invalid parameter combination',
+    validation_errors: errors,
+    action_required: 'Please fix the parameter conflicts and try again.',
+  };
+}
+
+// ============================================================================
+// Tool 1: browse_webpage - General Purpose Web Browsing
+// ============================================================================
+
+const selectorSchema = z.string().min(1).describe('CSS selector of the element, e.g. "#search" or "button.load-more"');
+
+const browserActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), selector: selectorSchema }),
+  z.object({ type: z.literal('type'), selector: selectorSchema, text: z.string().describe('Text typed into the element') }),
+  z.object({ type: z.literal('wait_for'), selector: selectorSchema }),
+  z.object({ type: z.literal('scroll'), pixels: z.number().int().describe('Pixels to scroll down (negative scrolls up)') }),
+  z.object({ type: z.literal('press'), key: z.string().min(1).describe('Key to press, e.g. "Enter" or "Escape"') }),
+  z.object({ type: z.literal('evaluate'), script: z.string().min(1).max(10000).describe('JavaScript run in the page. Its return value is reported') }),
+]);
+
+const mapsWebSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .describe('Target webpage URL to browse/scrape. Must include protocol (http:// or https://)'),
+
+  render_js: z
+    .boolean()
+    .optional()
+    .describe(`Enable JavaScript rendering for SPAs and dynamic content. Required for sites built with React, Vue, Angular. Auto-enabled by screenshot, wait_for, and scroll. Adds ~${CREDIT_COSTS.render_js} credits per request`),
+
+  screenshot: z
+    .boolean()
+    .optional()
+    .describe(`Capture a screenshot of the rendered page, returned as MCP image content. Useful for visual verification, debugging, or capturing dynamic content. Auto-enables render_js and json_response. Adds ~${CREDIT_COSTS.screenshot} credits`),
+
+  screenshot_format: z
+    .enum(['png', 'jpeg', 'webp'])
+    .optional()
+    .describe('Image format for the screenshot (default png). jpeg and webp are much smaller. Converted locally'),
+
+  screenshot_max_width: z
+    .number()
+    .int()
+    .min(16)
+    .optional()
+    .describe('Resize the screenshot to at most this width in pixels, keeping the aspect ratio. Example: 1024'),
+
+  screenshot_max_bytes: z
+    .number()
+    .int()
+    .min(1024)
+    .optional()
+    .describe('Maximum screenshot size in bytes. Quality and then dimensions are reduced until it fits. Use to protect the context window'),
+
+  screenshot_delivery: z
+    .enum(['image', 'file'])
+    .optional()
+    .describe('"image" (default) returns the screenshot as MCP image content; "file" saves it to the server\'s screenshot directory and returns the file path'),
+
+  residential: z
+    .boolean()
+    .optional()
+    .describe(`Use residential IP proxies instead of datacenter IPs. Provides higher success rates on protected sites and avoids datacenter IP blocks. Recommended for challenging sites. Adds ~${CREDIT_COSTS.residential} credits`),
+
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+    .optional()
+    .describe('Proxy country code for geo-targeting. Use to access region-locked content or see localized versions of websites. Examples: "us" (United States), "gb" (United Kingdom), "de" (Germany), "fr" (France)'),
+
+  bypass_level: z
+    .enum([
+      'generic_level_1',
+      'generic_level_2',
+      'generic_level_3',
+      'generic_level_4',
+      'cloudflare_level_1',
+      'cloudflare_level_2',
+      'cloudflare_level_3',
+      'datadome',
+      'incapsula',
+      'perimeterx',
+    ])
+    .optional()
+    .describe('Anti-bot bypass strength level. Use generic_level_2 for most protected sites. Use specific levels (cloudflare_level_2, datadome, incapsula, perimeterx) when you know the protection type. Higher levels cost more credits'),
+
+  wait: z
+    .number()
+    .optional()
+    .describe('Wait time in milliseconds before capturing page data. Useful for slow-loading content or animations. Example: 2000 for 2 seconds. Does not auto-enable render_js'),
+
+  wait_for: z
+    .string()
+    .optional()
+    .describe('CSS selector to wait for before returning response. Waits until the element appears on page. Auto-enables render_js. Example: ".product-list" or "#main-content" or "button.load-more"'),
+
+  scroll: z
+    .number()
+    .optional()
+    .describe('Scroll page by specified pixels before capturing data. Triggers lazy-loaded content and infinite scroll elements. Auto-enables render_js. Example: 1000 to scroll 1000px down'),
+
+  actions: z
+    .array(browserActionSchema)
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Browser steps run in order after the page loads: click, type, wait_for, scroll, press, evaluate. Use to dismiss cookie banners, click "load more", fill search boxes or paginate. Auto-enables render_js. The response reports the outcome of every step. Example: [{"type": "click", "selector": "#accept-cookies"}, {"type": "type", "selector": "#q", "text": "laptops"}, {"type": "press", "key": "Enter"}, {"type": "wait_for", "selector": ".results"}]'),
+
+  mobile: z
+    .boolean()
+    .optional()
+    .describe('Use mobile proxies instead of desktop proxies. Useful for mobile-specific content or testing mobile versions of sites'),
+
+  premium: z
+    .enum(['level_1', 'level_2'])
+    .optional()
+    .describe('Premium proxy tier for maximum success rates on very difficult sites. Significantly higher cost. Use only when other options fail'),
+
+  device_type: z
+    .enum(['desktop', 'mobile'])
+    .optional()
+    .describe('User-agent device type. Affects how sites render and serve content. Default is desktop. Use mobile for mobile-optimized pages'),
+
+  follow_redirects: z
+    .boolean()
+    .optional()
+    .describe('Whether to follow HTTP redirects (3xx status codes). Enabled by default. Set to false to capture redirect responses'),
+
+  return_status_codes: z
+    .boolean()
+    .optional()
+    .describe('Include initial and final HTTP status codes in JSON response. Useful for debugging redirects and response codes. Forces json_response output'),
+
+  keep_headers: z
+    .boolean()
+    .optional()
+    .describe('Return HTTP response headers in output. Useful for debugging or analyzing server responses'),
+
+  method: z
+    .enum(['GET', 'POST', 'PUT'])
+    .optional()
+    .describe('HTTP method sent to the target site (default GET). Use POST or PUT with `body` to submit login forms or call JSON APIs. POST requests are never retried automatically'),
+
+  headers: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe('Request headers forwarded to the target site, e.g. {"Accept": "application/json", "Authorization": "Bearer ..."}. Sent with keep_headers, so they replace the headers ScrapeOps would generate. Responses are not cached'),
+
+  cookies: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe('Cookies sent to the target site as a Cookie header, e.g. {"session_id": "abc123"}. Responses are not cached'),
+
+  body: z
+    .union([z.string(), z.record(z.string(), z.unknown())])
+    .optional()
+    .describe('Request body for POST or PUT. An object is sent as JSON, or form-encoded with body_format "form"; a string is sent as is'),
+
+  body_format: z
+    .enum(['json', 'form'])
+    .optional()
+    .describe('How `body` is encoded and the Content-Type sent with it: "json" (default for objects) or "form" (application/x-www-form-urlencoded)'),
+
+  session_number: z
+    .number()
+    .optional()
+    .describe('Sticky session ID (1-10000) for maintaining cookies and state across multiple requests. Use same number for related requests to maintain session'),
+
+  optimize_request: z
+    .boolean()
+    .optional()
+    .describe('Let ScrapeOps automatically optimize parameters for best success/cost ratio. Recommended for cost optimization. Can be combined with max_request_cost'),
+
+  max_request_cost: z
+    .number()
+    .optional()
+    .describe('Maximum credits to spend on this request. Only works with optimize_request: true. Helps control costs by setting a credit limit'),
+
+  output_format: outputFormatSchema,
+
+  max_output_chars: z
+    .number()
+    .int()
+    .min(100)
+    .optional()
+    .describe('Truncate returned content to this many characters, with a marker showing how much was cut. Use to stay within context limits on large pages'),
+
+  timeout_ms: timeoutSchema,
+
+  cache: cacheModeSchema,
+
+  use_learned_profile: learnedProfileSchema,
+
+  escalation: escalationSchema,
+
+  structured_output: structuredOutputSchema,
+});
+
+/**
+ * Translate browser actions into the instruction list ScrapeOps runs in its
+ * headless browser (the `js_scenario` param).
+ */
+function buildScenario(actions: BrowserAction[]): string {
+  const instructions = actions.map(action => {
+    switch (action.type) {
+      case 'click':
+        return { click: action.selector };
+      case 'type':
+        return { fill: [action.selector, action.text] };
+      case 'wait_for':
+        return { wait_for: action.selector };
+      case 'scroll':
+        return { scroll_y: action.pixels };
+      case 'press':
+        return { press: action.key };
+      case 'evaluate':
+        return { evaluate: action.script };
+    }
+  });
+  return JSON.stringify({ instructions });
+}
+
+function actionTarget(action: BrowserAction): string {
+  switch (action.type) {
+    case 'scroll':
+      return `${action.pixels}px`;
+    case 'press':
+      return action.key;
+    case 'evaluate':
+      return 'script';
+    default:
+      return action.selector;
+  }
+}
+
+/**
+ * Match the actions requested with the per-step results in ScrapeOps'
+ * `js_scenario_report`. Steps it does not mention are `not_reported`.
+ */
+function buildActionReport(actions: BrowserAction[], data: ScrapeOpsResponse | string | undefined): ActionStepReport[] {
+  const report = typeof data === 'object' ? (data.js_scenario_report as { steps?: unknown } | undefined) : undefined;
+  const steps = Array.isArray(report?.steps) ? (report.steps as Record<string, unknown>[]) : [];
+  return actions.map((action, i) => {
+    const step = steps[i];
+    return {
+      step: i + 1,
+      type: action.type,
+      target: actionTarget(action),
+      status: !step ? 'not_reported' : step.success === false ? 'failed' : 'succeeded',
+      ...(typeof step?.duration === 'number' && { duration_ms: step.duration }),
+      ...(typeof step?.error === 'string' && { error: step.error }),
+      ...(step?.result !== undefined && { result: step.result }),
+    };
+  });
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some(key => key.toLowerCase() === name);
+}
+
+/**
+ * Build the method, headers and body passed on to the target site. Plain GETs
+ * without caller headers or cookies need none.
+ */
+function buildForwardedRequest(params: z.input<typeof mapsWebSchema>): ForwardedRequest | undefined {
+  const method = params.method ?? 'GET';
+  if (method === 'GET' && !params.headers && !params.cookies && params.body === undefined) {
+    return undefined;
+  }
+
+  const headers: Record<string, string> = { ...params.headers };
+  if (params.cookies) {
+    headers.Cookie = Object.entries(params.cookies)
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ');
+  }
+
+  let body: string | undefined;
+  if (typeof params.body === 'string') {
+    body = params.body;
+  } else if (params.body) {
+    body =
+      params.body_format === 'form'
+        ? new URLSearchParams(Object.entries(params.body).map(([key, value]) => [key, String(value)])).toString()
+        : JSON.stringify(params.body);
+  }
+  const format = params.body_format ?? (params.body !== undefined && typeof params.body !== 'string' ? 'json' : undefined);
+  if (body !== undefined && format && !hasHeader(headers, 'content-type')) {
+    headers['Content-Type'] = format === 'form' ? 'application/x-www-form-urlencoded' : 'application/json';
+  }
+
+  return { method, headers, body };
+}
+
+/**
+ * Translate maps_web arguments into proxy params and the options reported
+ * back to the user. Shared by every tool that browses pages the same way.
+ */
+function buildMapsWebRequest(params: z.input<typeof mapsWebSchema>): {
+  requestParams: Partial<ScrapeOpsRequestParams>;
+  usedOptions: UsedOptions;
+  forward?: ForwardedRequest;
+} {
+  const requestParams: Partial<ScrapeOpsRequestParams> = {
+    url: params.url,
+  };
+
+  const usedOptions: UsedOptions = {};
+  if (params.country) {
+    requestParams.country = params.country;
+    usedOptions.country = params.country;
+  }
+  if (params.residential) {
+    requestParams.residential = true;
+    usedOptions.residential = true;
+  }
+  if (params.mobile) {
+    requestParams.mobile = true;
+    usedOptions.mobile = true;
+  }
+  if (params.premium) {
+    requestParams.premium = params.premium;
+    usedOptions.premium = params.premium;
+  }
+
+  if (params.render_js) {
+    requestParams.render_js = true;
+    usedOptions.render_js = true;
+  }
+  if (params.wait_for) {
+    requestParams.wait_for = params.wait_for;
+    requestParams.render_js = true;
+    usedOptions.wait_for = params.wait_for;
+    usedOptions.render_js = true;
+  }
+  if (params.wait) {
+    requestParams.wait = params.wait;
+    usedOptions.wait = params.wait;
+  }
+  if (params.scroll) {
+    requestParams.scroll = params.scroll;
+    requestParams.render_js = true;
+    usedOptions.scroll = params.scroll;
+    usedOptions.render_js = true;
+  }
+
+  if (params.screenshot) {
+    requestParams.screenshot = true;
+    requestParams.render_js = true;
+    requestParams.json_response = true;
+    usedOptions.screenshot = true;
+    usedOptions.render_js = true;
+  }
+
+  // The step report only comes back in the JSON response.
+  if (params.actions) {
+    requestParams.js_scenario = buildScenario(params.actions);
+    requestParams.render_js = true;
+    requestParams.json_response = true;
+    usedOptions.action_steps = params.actions.length;
+    usedOptions.render_js = true;
+  }
+
+  if (params.bypass_level) {
+    requestParams.bypass = params.bypass_level;
+    usedOptions.bypass_level = params.bypass_level;
+  }
+
+  if (params.device_type) {
+    requestParams.device_type = params.device_type;
+    usedOptions.device_type = params.device_type;
+  }
+  if (params.follow_redirects !== undefined) {
+    requestParams.follow_redirects = params.follow_redirects;
+    usedOptions.follow_redirects = params.follow_redirects;
+  }
+  if (params.return_status_codes) {
+    requestParams.initial_status_code = true;
+    requestParams.final_status_code = true;
+    requestParams.json_response = true;
+    usedOptions.return_status_codes = true;
+  }
+  if (params.keep_headers) {
+    requestParams.keep_headers = true;
+    usedOptions.keep_headers = true;
+  }
+  if (params.session_number) {
+    requestParams.session_number = params.session_number;
+    usedOptions.session_number = params.session_number;
+  }
+  if (params.optimize_request) {
+    requestParams.optimize_request = true;
+    usedOptions.optimize_request = true;
+    if (params.max_request_cost) {
+      requestParams.max_request_cost = params.max_request_cost;
+      usedOptions.max_request_cost = params.max_request_cost;
+    }
+  }
+
+  // ScrapeOps only passes request headers on to the target with keep_headers.
+  const forward = buildForwardedRequest(params);
+  if (forward) {
+    requestParams.keep_headers = true;
+    usedOptions.method = forward.method;
+    if (params.headers) {
+      usedOptions.header_names = Object.keys(params.headers);
+    }
+    if (params.cookies) {
+      usedOptions.cookie_names = Object.keys(params.cookies);
+    }
+  }
+
+  return { requestParams, usedOptions, forward };
+}
+
+server.addTool({
+  name: 'maps_web',
+  canAccess: allowTool('maps_web'),
+  description: `Browse and scrape any webpage with advanced proxy and rendering capabilities.
+
+**Best for:**
+- Reading webpage content
+- Taking screenshots of websites
+- Verifying how a site looks from different countries
+- Bypassing anti-bot protections
+- Accessing JavaScript-rendered content
+
+**Key Features:**
+- **Geo-targeting**: Access websites from different countries
+- **JavaScript Rendering**: Render SPAs and dynamic content
+- **Residential/Mobile Proxies**: Better success on challenging sites
+- **Screenshots**: Capture visual snapshots of pages
+- **Anti-Bot Bypass**: Multiple bypass levels for protected sites
+- **Wait Controls**: Wait for elements or time before capture
+- **Custom Requests**: POST/PUT bodies, headers and cookies for logins and JSON APIs
+- **Browser Actions**: Click, type, scroll, press keys and run scripts before capture, with a per-step report
+
+**Usage Examples:**
+
+1. Simple page browse:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://example.com"
+  }
+}
+\`\`\`
+
+2. Screenshot for website:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://example.de",
+    "render_js": true,
+    "json_response": true,
+    "screenshot": true
+  }
+}
+\`\`\`
+
+3. Access Cloudflare-protected site:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://protected-site.com",
+    "bypass_level": "cloudflare_level_2",
+    "residential": true,
+    "render_js": true
+  }
+}
+\`\`\`
+
+4. Wait for dynamic content:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://spa-app.com",
+    "render_js": true,
+    "wait_for": ".product-list",
+    "wait": 2000
+  }
+}
+\`\`\`
+
+5. Read an article without page chrome:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://blog.example.com/post",
+    "output_format": "readable",
+    "max_output_chars": 20000
+  }
+}
+\`\`\`
+
+6. Call a JSON API with a session cookie:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://example.com/api/orders",
+    "method": "POST",
+    "body": { "page": 1 },
+    "cookies": { "session_id": "abc123" },
+    "headers": { "Accept": "application/json" }
+  }
+}
+\`\`\`
+
+7. Search a site, then load more results:
+\`\`\`json
+{
+  "name": "maps_web",
+  "arguments": {
+    "url": "https://shop.example.com",
+    "actions": [
+      { "type": "click", "selector": "#accept-cookies" },
+      { "type": "type", "selector": "input[name=q]", "text": "laptops" },
+      { "type": "press", "key": "Enter" },
+      { "type": "wait_for", "selector": ".results" },
+      { "type": "click", "selector": "button.load-more" },
+      { "type": "scroll", "pixels": 2000 }
+    ]
+  }
+}
+\`\`\`
+
+**Returns:** HTML content (or markdown/text per output_format). With screenshot=true, the screenshot as MCP image content plus a JSON summary, or the saved file path when screenshot_delivery="file". A second JSON block follows the page with the \`cache\` status, \`queue_wait_ms\` when the request waited for a rate limit slot, and, with actions, escalation or use_learned_profile, the \`actions\` report (each step's status: succeeded, failed or not_reported, duration and any error or script result), the \`escalation\` attempts and the \`learned_profile\` applied. With structured_output=true, a consistent JSON envelope with url, final_url, status codes, content, content_type, options_used, credits_estimate and timing.
+
+**IMPORTANT - Default Behavior:**
+- Always start with BASIC settings (just the URL)
+- Do NOT use advanced parameters (render_js, residential, bypass_level, premium) unless:
+  1. The user explicitly requests them, OR
+  2. A previous request failed AND the user gives permission to use them
+
+**If a request fails:**
+- The error response will ask for permission to retry with advanced options
+- Wait for user confirmation before using advanced parameters
+- Never auto-enable advanced parameters without user consent
+- If the server operator has enabled per-call escalation and the user pre-approves it, pass their ladder and credit ceiling as \`escalation\`; the server then retries 403/429 failures itself and reports every attempt`,
+  parameters: mapsWebSchema,
+  execute: async (
+    args: unknown,
+    { session, log: clientLog }: { session?: SessionData; log: Logger }
+  ): Promise<string | ContentResult> => {
+    const log = requestLog('maps_web', clientLog);
+    const input = args as z.infer<typeof mapsWebSchema>;
+    const { params, profile } = withLearnedProfile(input, input.url);
+    const apiKey = getApiKey(session);
+    const structured = useStructuredOutput(params.structured_output);
+
+    const { requestParams, usedOptions, forward } = buildMapsWebRequest(params);
+
+    // An explicit `render_js: false` has to reach the conflict checks rather
+    // than the render_js that screenshot, scroll or actions imply.
+    const validation = validateParams({
+      ...params,
+      ...usedOptions,
+      render_js: params.render_js ?? usedOptions.render_js,
+    });
+
+    if (!validation.valid) {
+      log.error('Parameter validation failed', { errors: validation.errors });
+      const failure = validationFailure(params.url, validation.errors);
+      if (structured) {
+        return envelopeResult(
+          buildEnvelope('maps_web', params.url, usedOptions, undefined, { content: null, content_type: null, error: failure })
+        );
+      }
+      return JSON.stringify(failure, null, 2);
+    }
+
+    if (validation.warnings.length > 0) {
+      log.warn('Parameter validation warnings', { warnings: validation.warnings });
+    }
+
+    log.info('maps_web request', {
+      url: params.url,
+      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic (no extra options)',
+    });
+
+    const { result, usedOptions: finalOptions, escalation } = await proxyRequestWithEscalation(
+      {
+        toolName: 'maps_web',
+        apiKey,
+        session,
+        params: removeEmptyValues(requestParams),
+        usedOptions,
+        cache: params.cache,
+        learnProfile: true,
+        timeoutMs: params.timeout_ms,
+        forward,
+      },
+      resolveEscalationPolicy(params.escalation),
+      options => {
+        const next = { ...params, ...options } as typeof params;
+        const built = buildMapsWebRequest(next);
+        return validateParams({ ...next, ...built.usedOptions }).valid
+          ? { params: removeEmptyValues(built.requestParams), usedOptions: built.usedOptions }
+          : undefined;
+      },
+      log
+    );
+    const extras = {
+      ...(escalation && { escalation }),
+      ...(profile && { learned_profile: profile.options }),
+      ...(params.actions && result.success && { actions: buildActionReport(params.actions, result.data) }),
+    };
+
+    if (result.success) {
+      log.info('Request successful', { statusCode: result.statusCode });
+
+      // Handle screenshot response
+      if (params.screenshot && typeof result.data === 'object' && result.data?.screenshot) {
+        const screenshot = await processScreenshot(result.data.screenshot, {
+          format: params.screenshot_format || 'png',
+          maxWidth: params.screenshot_max_width,
+          maxBytes: params.screenshot_max_bytes,
+        });
+        const path = params.screenshot_delivery === 'file' ? await saveScreenshot(screenshot, params.url) : undefined;
+        if (path) {
+          log.info('Screenshot saved', { path });
+        }
+        const image: Content[] = path
+          ? []
+          : [{ type: 'image', data: screenshot.buffer.toString('base64'), mimeType: screenshot.mimeType }];
+
+        if (structured) {
+          const content = { ...describeScreenshot(screenshot), ...(path && { path }) };
+          return envelopeResult(
+            buildEnvelope('maps_web', params.url, finalOptions, result, {
+              content,
+              content_type: 'image',
+              details: extras,
+              warnings: validation.warnings,
+            }),
+            image
+          );
+        }
+
+        const summary = {
+          success: true,
+          url: params.url,
+          message: 'Screenshot captured successfully',
+          screenshot: describeScreenshot(screenshot),
+          ...(result.data.initial_status_code && { initial_status_code: result.data.initial_status_code }),
+          ...(result.data.final_status_code && { final_status_code: result.data.final_status_code }),
+          cache: result.cache,
+          ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+          ...extras,
+        };
+
+        if (path) {
+          return JSON.stringify({ ...summary, screenshot_path: path }, null, 2);
+        }
+
+        return {
+          content: [...image, { type: 'text', text: JSON.stringify(summary, null, 2) }],
+        };
+      }
+
+      // Actions switch on JSON mode for the step report; the page itself is
+      // under `data`.
+      const page = params.actions && typeof result.data === 'object' && typeof result.data.data === 'string'
+        ? result.data.data
+        : result.data;
+
+      if (structured) {
+        const content = typeof page === 'string'
+          ? formatContent(page, params.output_format, params.url, params.max_output_chars)
+          : page;
+        return envelopeResult(
+          buildEnvelope('maps_web', params.url, finalOptions, result, {
+            content,
+            content_type: envelopeContentType(page, params.output_format),
+            details: extras,
+            warnings: validation.warnings,
+          })
+        );
+      }
+
+      // The page alone in the first block; the cache status, queue wait and
+      // any reports the caller asked for follow in a second one.
+      return {
+        content: [
+          { type: 'text', text: formatContent(page, params.output_format, params.url, params.max_output_chars) },
+          {
+            type: 'text',
+            text: JSON.stringify({
+              cache: result.cache,
+              ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+              ...extras,
+            }),
+          },
+        ],
+      };
+    }
+
+    log.warn('Request failed', { 
+      error: result.error, 
+      errorType: result.errorType,
+      statusCode: result.statusCode,
+      retriesAttempted: result.retriesAttempted,
+    });
+    const error = buildErrorResponse(
+      params.url, 
+      result.error || 'Unknown error', 
+      result.errorType,
+      result.statusCode, 
+      finalOptions,
+      result.retriesAttempted || 0,
+      {
+        ...(result.budget && { budget: result.budget }),
+        ...(result.policy && { policy: result.policy }),
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+        ...(escalation && { escalation }),
+      }
+    );
+    if (structured) {
+      return envelopeResult(buildEnvelope('maps_web', params.url, finalOptions, result, { content: null, content_type: null, error }));
+    }
+    return JSON.stringify(error, null, 2);
+  },
+});
+
+
+// ============================================================================
+// Custom Extraction Schemas
+// ============================================================================
+
+function fieldsToJsonSchema(fields: ExtractionField[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      fields.map(field => [field.name, { type: field.type || 'string', description: field.description }])
+    ),
+    required: fields.filter(field => field.required !== false).map(field => field.name),
+  };
+}
+
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'array', 'object'];
+
+/**
+ * Problems with the keywords jsonSchemaToZod reads, each with its path, so a
+ * malformed schema is refused before the extraction is paid for rather than
+ * failing once the data is back.
+ */
+function jsonSchemaProblems(schema: unknown, path = 'custom_schema'): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path} must be a schema object`];
+  }
+  const { type, properties, required, items, enum: options, anyOf, oneOf } = schema as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  for (const name of types) {
+    if (typeof name !== 'string' || !JSON_SCHEMA_TYPES.includes(name)) {
+      problems.push(`${path}.type ${JSON.stringify(name)} is not one of ${JSON_SCHEMA_TYPES.join(', ')}`);
+    }
+  }
+  if (properties !== undefined) {
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+      problems.push(`${path}.properties must be an object of schemas`);
+    } else {
+      for (const [key, property] of Object.entries(properties)) {
+        problems.push(...jsonSchemaProblems(property, `${path}.properties.${key}`));
+      }
+    }
+  }
+  if (required !== undefined && !(Array.isArray(required) && required.every(key => typeof key === 'string'))) {
+    problems.push(`${path}.required must be an array of property names`);
+  }
+  if (items !== undefined) {
+    problems.push(...jsonSchemaProblems(items, `${path}.items`));
+  }
+  if (options !== undefined && !Array.isArray(options)) {
+    problems.push(`${path}.enum must be an array`);
+  }
+  for (const [keyword, variants] of [['anyOf', anyOf], ['oneOf', oneOf]] as const) {
+    if (variants === undefined) continue;
+    if (!Array.isArray(variants)) {
+      problems.push(`${path}.${keyword} must be an array of schemas`);
+    } else {
+      variants.forEach((variant, i) => problems.push(...jsonSchemaProblems(variant, `${path}.${keyword}[${i}]`)));
+    }
+  }
+  return problems;
+}
+
+/**
+ * Build a zod validator from a JSON Schema. Covers the subset LLM extraction
+ * schemas use (object, array, primitives, enum, anyOf/oneOf, nullable type
+ * arrays); any other keyword is accepted without checking. Objects are loose,
+ * so extra fields returned by the extractor are never reported as errors.
+ * The schema must have passed jsonSchemaProblems.
+ */
+function jsonSchemaToZod(schema: JsonSchema): z.ZodType {
+  if (schema.enum) {
+    return z.unknown().refine(value => schema.enum!.some(option => option === value), {
+      message: `Expected one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants && variants.length > 0) {
+    return variants.length === 1
+      ? jsonSchemaToZod(variants[0])
+      : z.union(variants.map(jsonSchemaToZod) as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(type => type !== 'null');
+    const base = types.length === 1 ? jsonSchemaToZod({ ...schema, type: types[0] }) : z.unknown();
+    return schema.type.includes('null') ? base.nullable() : base;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array':
+      return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+    case 'object': {
+      const required = new Set(schema.required || []);
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const fieldSchema = jsonSchemaToZod(property);
+        shape[key] = required.has(key) ? fieldSchema : fieldSchema.optional();
+      }
+      return z.looseObject(shape);
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+function valueAtPath(data: unknown, path: PropertyKey[]): unknown {
+  let current = data;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Validate extracted data against the requested schema, splitting problems
+ * into fields the extractor did not return and fields it got wrong.
+ */
+function validateExtraction(data: unknown, schema: JsonSchema): SchemaValidationReport {
+  const parsed = jsonSchemaToZod(schema).safeParse(data);
+  const report: SchemaValidationReport = { valid: parsed.success, missing_fields: [], invalid_fields: [] };
+  if (parsed.success) {
+    return report;
+  }
+  for (const issue of parsed.error.issues) {
+    const path = issue.path.map(String).join('.') || '(root)';
+    if (issue.path.length > 0 && valueAtPath(data, issue.path) === undefined) {
+      report.missing_fields.push(path);
+    } else {
+      report.invalid_fields.push({ path, message: issue.message });
+    }
+  }
+  return report;
+}
+
+// ============================================================================
+// Selector Extraction
+// ============================================================================
+
+/**
+ * Treat a selector as XPath when asked to, or when it looks like one
+ * (starts with "/", "./" or "(").
+ */
+function isXPath(field: SelectorField): boolean {
+  if (field.type) return field.type === 'xpath';
+  return /^(\/|\.\/|\()/.test(field.selector.trim());
+}
+
+function selectNodes(document: Document, field: SelectorField): Node[] {
+  if (!isXPath(field)) {
+    return Array.from(document.querySelectorAll(field.selector));
+  }
+  const window = document.defaultView!;
+  const snapshot = document.evaluate(
+    field.selector,
+    document,
+    null,
+    window.XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null
+  );
+  const nodes: Node[] = [];
+  for (let i = 0; i < snapshot.snapshotLength; i++) {
+    nodes.push(snapshot.snapshotItem(i)!);
+  }
+  return nodes;
+}
+
+function nodeValue(node: Node, attribute: string | undefined): string | undefined {
+  if (node.nodeType === node.ELEMENT_NODE) {
+    const element = node as Element;
+    if (!attribute || attribute === 'text') return element.textContent ?? undefined;
+    if (attribute === 'html') return element.innerHTML;
+    return element.getAttribute(attribute) ?? undefined;
+  }
+  // Attribute and text nodes, e.g. XPath `//a/@href` or `//p/text()`
+  return node.nodeValue ?? undefined;
+}
+
+function parseNumber(value: string): number | null {
+  const match = value.replace(/[,\s]/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+function applyTransforms(value: string, transforms: SelectorTransform[], baseUrl: string): unknown {
+  let result: unknown = value;
+  for (const transform of transforms) {
+    if (typeof result !== 'string') break;
+    switch (transform) {
+      case 'trim':
+        result = result.replace(/\s+/g, ' ').trim();
+        break;
+      case 'lowercase':
+        result = result.toLowerCase();
+        break;
+      case 'uppercase':
+        result = result.toUpperCase();
+        break;
+      case 'number':
+        result = parseNumber(result);
+        break;
+      case 'integer': {
+        const parsed = parseNumber(result);
+        result = parsed === null ? null : Math.trunc(parsed);
+        break;
+      }
+      case 'absolute_url':
+        try {
+          result = new URL(result.trim(), baseUrl).toString();
+        } catch {
+          // Leave values that cannot be resolved as-is
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a map of field name to selector to an HTML page. A plain string is
+ * shorthand for the trimmed text of the first CSS/XPath match.
+ */
+function extractWithSelectors(
+  html: string,
+  selectors: Record<string, string | SelectorField>,
+  baseUrl: string
+): SelectorExtractionResult {
+  const { document } = new JSDOM(html, { url: baseUrl }).window;
+  const result: SelectorExtractionResult = { data: {}, unmatched_fields: [], selector_errors: [] };
+
+  for (const [name, spec] of Object.entries(selectors)) {
+    const field: SelectorField = typeof spec === 'string' ? { selector: spec } : spec;
+    const transforms = field.transform || ['trim'];
+    let nodes: Node[];
+    try {
+      nodes = selectNodes(document, field);
+    } catch (error) {
+      result.selector_errors.push({ field: name, message: error instanceof Error ? error.message : String(error) });
+      result.data[name] = null;
+      continue;
+    }
+
+    const values = nodes
+      .map(node => nodeValue(node, field.attribute))
+      .filter((value): value is string => value !== undefined)
+      .map(value => applyTransforms(value, transforms, baseUrl));
+
+    if (values.length === 0) {
+      result.unmatched_fields.push(name);
+    }
+    result.data[name] = field.multiple ? values : (values[0] ?? null);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Tool 2: extract_data - Structured Data Extraction
+// ============================================================================
+
+const extractDataSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .describe('The URL to extract data from'),
+
+  mode: z
+    .enum(['auto', 'llm', 'selectors'])
+    .describe('Extraction mode: "auto" for domain-specific parsing, "llm" for AI-powered extraction, "selectors" for local CSS/XPath extraction (no extraction credits)'),
+
+  data_schema: z
+    .enum([
+      'product_page',
+      'product_reviews_page',
+      'product_search_page',
+      'product_seller_page',
+      'job_page',
+      'job_advert_page',
+      'job_search_page',
+      'company_page',
+      'company_job_page',
+      'company_location_page',
+      'company_review_page',
+      'company_search_page',
+      'company_social_media_page',
+      'real_estate_page',
+      'real_estate_profile_page',
+      'real_estate_search_page',
+      'serp_search_page',
+    ])
+    .optional()
+    .describe('Page type schema for optimized LLM extraction'),
+
+  custom_schema: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe('JSON Schema describing exactly what to extract (LLM mode). Use for pages that do not fit a data_schema template. The returned data is validated against it and missing/invalid fields are reported'),
+
+  fields: z
+    .array(
+      z.object({
+        name: z.string().describe('Field name in the extracted JSON'),
+        description: z.string().describe('What the field should contain, in plain language'),
+        type: z
+          .enum(['string', 'number', 'integer', 'boolean', 'array', 'object'])
+          .optional()
+          .describe('Expected value type (default: string)'),
+        required: z
+          .boolean()
+          .optional()
+          .describe('Report the field as missing when absent (default: true)'),
+      })
+    )
+    .optional()
+    .describe('Simpler alternative to custom_schema (LLM mode): list the fields to extract with natural-language descriptions'),
+
+  selectors: z
+    .record(
+      z.string(),
+      z.union([
+        z.string(),
+        z.object({
+          selector: z.string().describe('CSS selector, or XPath expression (auto-detected when it starts with "/", "./" or "(")'),
+          type: z.enum(['css', 'xpath']).optional().describe('Force the selector type instead of auto-detecting it'),
+          attribute: z
+            .string()
+            .optional()
+            .describe('Attribute to read (e.g. "href", "src", "content"), "html" for inner HTML, or "text" (default)'),
+          multiple: z.boolean().optional().describe('Return all matches as a list instead of the first match'),
+          transform: z
+            .array(z.enum(['trim', 'number', 'integer', 'absolute_url', 'lowercase', 'uppercase']))
+            .optional()
+            .describe('Post-processing steps applied in order (default: ["trim"])'),
+        }),
+      ])
+    )
+    .optional()
+    .describe('Selectors mode: map of field name to a CSS selector/XPath string or a field spec. Example: {"title": "h1", "price": {"selector": ".price", "transform": ["trim", "number"]}}'),
+
+  response_format: z
+    .enum(['json', 'markdown'])
+    .optional()
+    .default('json')
+    .describe('Output format for extracted data'),
+
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+    .optional()
+    .describe('Country for geo-targeting'),
+
+  residential: z
+    .boolean()
+    .optional()
+    .describe('Use residential proxies'),
+
+  mobile: z
+    .boolean()
+    .optional()
+    .describe('Use mobile proxies'),
+
+  premium: z
+    .enum(['level_1', 'level_2'])
+    .optional()
+    .describe('Premium proxy level'),
+
+  device_type: z
+    .enum(['desktop', 'mobile'])
+    .optional()
+    .describe('Use desktop or mobile user-agents'),
+
+  follow_redirects: z
+    .boolean()
+    .optional()
+    .describe('Whether to follow HTTP redirects'),
+
+  render_js: z
+    .boolean()
+    .optional()
+    .describe('Render JavaScript before extraction'),
+
+  wait_for: z
+    .string()
+    .optional()
+    .describe('CSS selector to wait for before extraction'),
+
+  wait: z
+    .number()
+    .optional()
+    .describe('Time to wait in milliseconds'),
+
+  // Anti-bot
+  bypass_level: z
+    .enum([
+      'generic_level_1',
+      'generic_level_2',
+      'generic_level_3',
+      'generic_level_4',
+      'cloudflare_level_1',
+      'cloudflare_level_2',
+      'cloudflare_level_3',
+      'datadome',
+      'incapsula',
+      'perimeterx',
+    ])
+    .optional()
+    .describe('Anti-bot bypass level'),
+
+  keep_headers: z
+    .boolean()
+    .optional()
+    .describe('Return response headers'),
+
+  session_number: z
+    .number()
+    .optional()
+    .describe('Sticky session number'),
+
+  optimize_request: z
+    .boolean()
+    .optional()
+    .describe('Let ScrapeOps auto-optimize the request'),
+
+  max_request_cost: z
+    .number()
+    .optional()
+    .describe('Maximum credits allowed for the request'),
+
+  timeout_ms: timeoutSchema,
+
+  cache: cacheModeSchema,
+
+  use_learned_profile: learnedProfileSchema,
+
+  escalation: escalationSchema,
+
+  structured_output: structuredOutputSchema,
+});
+
+/**
+ * Translate extract_data arguments into proxy params, the options reported
+ * back to the user and the JSON Schema the extraction is validated against.
+ */
+function buildExtractDataRequest(params: z.input<typeof extractDataSchema>): {
+  requestParams: Partial<ScrapeOpsRequestParams>;
+  usedOptions: UsedOptions;
+  extractionSchema: JsonSchema | undefined;
+} {
+  const requestParams: Partial<ScrapeOpsRequestParams> = {
+    url: params.url,
+    ...(params.mode !== 'selectors' && { json_response: true }),
+  };
+
+  const extractionSchema: JsonSchema | undefined = params.fields
+    ? fieldsToJsonSchema(params.fields)
+    : (params.custom_schema as JsonSchema | undefined);
+
+  const usedOptions: UsedOptions = {};
+  if (params.mode === 'auto') {
+    requestParams.auto_extract = true;
+  } else if (params.mode === 'llm') {
+    requestParams.llm_extract = true;
+    if (params.data_schema) {
+      requestParams.llm_data_schema = params.data_schema;
+    }
+    if (extractionSchema) {
+      requestParams.llm_extract_schema = JSON.stringify(extractionSchema);
+    }
+    if (params.response_format) {
+      requestParams.llm_extract_response_type = params.response_format;
+    }
+  }
+
+  if (params.country) {
+    requestParams.country = params.country;
+    usedOptions.country = params.country;
+  }
+  if (params.residential) {
+    requestParams.residential = true;
+    usedOptions.residential = true;
+  }
+  if (params.mobile) {
+    requestParams.mobile = true;
+    usedOptions.mobile = true;
+  }
+  if (params.premium) {
+    requestParams.premium = params.premium;
+    usedOptions.premium = params.premium;
+  }
+
+  if (params.render_js) {
+    requestParams.render_js = true;
+    usedOptions.render_js = true;
+  }
+  if (params.wait_for) {
+    requestParams.wait_for = params.wait_for;
+    requestParams.render_js = true;
+    usedOptions.wait_for = params.wait_for;
+    usedOptions.render_js = true;
+  }
+  if (params.wait) {
+    requestParams.wait = params.wait;
+    usedOptions.wait = params.wait;
+  }
+
+  if (params.bypass_level) {
+    requestParams.bypass = params.bypass_level;
+    usedOptions.bypass_level = params.bypass_level;
+  }
+
+  if (params.device_type) {
+    requestParams.device_type = params.device_type;
+    usedOptions.device_type = params.device_type;
+  }
+  if (params.follow_redirects !== undefined) {
+    requestParams.follow_redirects = params.follow_redirects;
+    usedOptions.follow_redirects = params.follow_redirects;
+  }
+  if (params.keep_headers) {
+    requestParams.keep_headers = true;
+    usedOptions.keep_headers = true;
+  }
+  if (params.session_number) {
+    requestParams.session_number = params.session_number;
+    usedOptions.session_number = params.session_number;
+  }
+  if (params.optimize_request) {
+    requestParams.optimize_request = true;
+    usedOptions.optimize_request = true;
+    if (params.max_request_cost) {
+      requestParams.max_request_cost = params.max_request_cost;
+      usedOptions.max_request_cost = params.max_request_cost;
+    }
+  }
+
+  return { requestParams, usedOptions, extractionSchema };
+}
+
+server.addTool({
+  name: 'extract_data',
+  canAccess: allowTool('extract_data'),
+  description: `
+Extract structured data from webpages using auto-parsing or LLM-powered extraction.
+
+**Best for:**
+- Getting product information (prices, names, descriptions)
+- Extracting job listings data
+- Parsing search results
+- Collecting structured company information
+- Real estate listings extraction
+
+**Extraction Modes:**
+- **auto**: Domain-specific parsers for common sites (Amazon, Google, etc.)
+- **llm**: AI-powered extraction with customizable schemas
+- **selectors**: Local CSS selector / XPath extraction for pages with stable markup. Deterministic and spends no extraction credits
+
+**Data Schemas (for LLM mode):**
+- Product: product_page, product_reviews_page, product_search_page, product_seller_page
+- Jobs: job_page, job_advert_page, job_search_page
+- Company: company_page, company_job_page, company_review_page, company_search_page
+- Real Estate: real_estate_page, real_estate_profile_page, real_estate_search_page
+- Search: serp_search_page
+
+**Custom Extraction (LLM mode):**
+- **fields**: list the fields you need with plain-language descriptions
+- **custom_schema**: full JSON Schema for nested or typed output
+- The returned data is validated against the schema; missing and invalid fields are reported in \`schema_validation\`
+
+**Usage Examples:**
+
+1. Auto-extract from known domain:
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://www.amazon.com/dp/B09V3KXJPB",
+    "mode": "auto"
+  }
+}
+\`\`\`
+
+2. LLM extraction for product page:
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://shop.example.com/product/123",
+    "mode": "llm",
+    "data_schema": "product_page",
+    "response_format": "json"
+  }
+}
+\`\`\`
+
+3. Extract job listings with anti-bot bypass:
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://careers.example.com/jobs",
+    "mode": "llm",
+    "data_schema": "job_search_page",
+    "bypass_level": "generic_level_2",
+    "render_js": true
+  }
+}
+\`\`\`
+
+4. Extract real estate data in markdown:
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://realestate.example.com/listing/456",
+    "mode": "llm",
+    "data_schema": "real_estate_page",
+    "response_format": "markdown"
+  }
+}
+\`\`\`
+
+5. Extract custom fields:
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://events.example.com/conference",
+    "mode": "llm",
+    "fields": [
+      { "name": "event_name", "description": "Name of the conference" },
+      { "name": "start_date", "description": "First day, ISO 8601" },
+      { "name": "ticket_price", "description": "Cheapest ticket price", "type": "number" }
+    ]
+  }
+}
+\`\`\`
+
+6. Extract with CSS selectors and XPath (no LLM):
+\`\`\`json
+{
+  "name": "extract_data",
+  "arguments": {
+    "url": "https://shop.example.com/product/123",
+    "mode": "selectors",
+    "selectors": {
+      "title": "h1",
+      "price": { "selector": ".price", "transform": ["trim", "number"] },
+      "images": { "selector": "img.gallery", "attribute": "src", "multiple": true, "transform": ["absolute_url"] },
+      "sku": "//span[@itemprop='sku']/text()"
+    }
+  }
+}
+\`\`\`
+
+**Returns:** Structured JSON or Markdown data extracted from the page. With structured_output=true, the same response envelope as maps_web with the extracted data as content.
+`,
+  parameters: extractDataSchema,
+  execute: async (
+    args: unknown,
+    { session, log: clientLog }: { session?: SessionData; log: Logger }
+  ): Promise<string | ContentResult> => {
+    const log = requestLog('extract_data', clientLog);
+    const input = args as z.infer<typeof extractDataSchema>;
+    const { params, profile } = withLearnedProfile(input, input.url);
+    const apiKey = getApiKey(session);
+    const structured = useStructuredOutput(params.structured_output);
+
+    const { requestParams, usedOptions, extractionSchema } = buildExtractDataRequest(params);
+
+    const validation = validateParams({
+      ...params,
+      ...usedOptions,
+      render_js: params.render_js ?? usedOptions.render_js,
+    });
+
+    if (!validation.valid) {
+      log.error('Parameter validation failed', { errors: validation.errors });
+      const failure = validationFailure(params.url, validation.errors);
+      if (structured) {
+        return envelopeResult(
+          buildEnvelope('extract_data', params.url, usedOptions, undefined, { content: null, content_type: null, error: failure })
+        );
+      }
+      return JSON.stringify(failure, null, 2);
+    }
+
+    if (validation.warnings.length > 0) {
+      log.warn('Parameter validation warnings', { warnings: validation.warnings });
+    }
+
+    log.info('extract_data request', {
+      url: params.url,
+      mode: params.mode,
+      schema: params.data_schema,
+      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic (no extra options)',
+    });
+
+    const { result, usedOptions: finalOptions, escalation } = await proxyRequestWithEscalation(
+      {
+        toolName: 'extract_data',
+        apiKey,
+        session,
+        params: removeEmptyValues(requestParams),
+        usedOptions,
+        cache: params.cache,
+        learnProfile: true,
+        timeoutMs: params.timeout_ms,
+      },
+      resolveEscalationPolicy(params.escalation),
+      options => {
+        const next = { ...params, ...options } as typeof params;
+        const built = buildExtractDataRequest(next);
+        return validateParams({ ...next, ...built.usedOptions }).valid
+          ? { params: removeEmptyValues(built.requestParams), usedOptions: built.usedOptions }
+          : undefined;
+      },
+      log
+    );
+    if (result.success && params.mode === 'selectors') {
+      const extraction = extractWithSelectors(
+        asText(result.data),
+        params.selectors as Record<string, string | SelectorField>,
+        params.url
+      );
+      log.info('Selector extraction finished', {
+        fields: Object.keys(extraction.data).length,
+        unmatched: extraction.unmatched_fields.length,
+      });
+      const details = {
+        extraction_mode: params.mode,
+        ...(extraction.unmatched_fields.length > 0 && { unmatched_fields: extraction.unmatched_fields }),
+        ...(extraction.selector_errors.length > 0 && { selector_errors: extraction.selector_errors }),
+        ...(escalation && { escalation }),
+        ...(profile && { learned_profile: profile.options }),
+      };
+      if (structured) {
+        return envelopeResult(
+          buildEnvelope('extract_data', params.url, finalOptions, result, {
+            content: extraction.data,
+            content_type: 'json',
+            details,
+            warnings: validation.warnings,
+          })
+        );
+      }
+      return JSON.stringify({
+        success: true,
+        url: params.url,
+        ...details,
+        ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+        data: extraction.data,
+        cache: result.cache,
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+      }, null, 2);
+    }
+
+    if (result.success) {
+      log.info('Extraction successful');
+      let schemaValidation: SchemaValidationReport | undefined;
+      if (extractionSchema) {
+        const extracted = typeof result.data === 'object' ? (result.data.data ?? result.data) : result.data;
+        schemaValidation = validateExtraction(extracted, extractionSchema);
+        if (!schemaValidation.valid) {
+          log.warn('Extracted data does not match the requested schema', { ...schemaValidation });
+        }
+      }
+      if (structured) {
+        return envelopeResult(
+          buildEnvelope('extract_data', params.url, finalOptions, result, {
+            content: result.data,
+            content_type: 'json',
+            details: {
+              extraction_mode: params.mode,
+              ...(params.data_schema && { data_schema: params.data_schema }),
+              ...(extractionSchema && { custom_schema: true }),
+              ...(schemaValidation && { schema_validation: schemaValidation }),
+              ...(escalation && { escalation }),
+              ...(profile && { learned_profile: profile.options }),
+            },
+            warnings: validation.warnings,
+          })
+        );
+      }
+      return JSON.stringify({
+        success: true,
+        url: params.url,
+        extraction_mode: params.mode,
+        ...(params.data_schema && { data_schema: params.data_schema }),
+        ...(extractionSchema && { custom_schema: true }),
+        ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+        ...(schemaValidation && { schema_validation: schemaValidation }),
+        data: result.data,
+        cache: result.cache,
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+        ...(escalation && { escalation }),
+        ...(profile && { learned_profile: profile.options }),
+      }, null, 2);
+    }
+
+    log.warn('Extraction failed', { 
+      error: result.error, 
+      errorType: result.errorType,
+      statusCode: result.statusCode,
+      retriesAttempted: result.retriesAttempted,
+    });
+    const error = buildErrorResponse(
+      params.url, 
+      result.error || 'Unknown error', 
+      result.errorType,
+      result.statusCode, 
+      finalOptions,
+      result.retriesAttempted || 0,
+      {
+        ...(result.budget && { budget: result.budget }),
+        ...(result.policy && { policy: result.policy }),
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+        ...(escalation && { escalation }),
+      }
+    );
+    if (structured) {
+      return envelopeResult(buildEnvelope('extract_data', params.url, finalOptions, result, { content: null, content_type: null, error }));
+    }
+    return JSON.stringify(error, null, 2);
+  },
+});
+
+// ============================================================================
+// Tool 3: return_links - URL Extraction from Webpages
+// ============================================================================
+
+const returnLinksSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .describe('The URL to extract links from'),
+
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+    .optional()
+    .describe('Country for geo-targeting'),
+
+  residential: z
+    .boolean()
+    .optional()
+    .describe('Use residential proxies for better success rates'),
+
+  mobile: z
+    .boolean()
+    .optional()
+    .describe('Use mobile proxies'),
+
+  premium: z
+    .enum(['level_1', 'level_2'])
+    .optional()
+    .describe('Premium proxy level'),
+
+  bypass_level: z
+    .enum([
+      'generic_level_1',
+      'generic_level_2',
+      'generic_level_3',
+      'generic_level_4',
+      'cloudflare_level_1',
+      'cloudflare_level_2',
+      'cloudflare_level_3',
+      'datadome',
+      'incapsula',
+      'perimeterx',
+    ])
+    .optional()
+    .describe('Anti-bot bypass level'),
+
+  session_number: z
+    .number()
+    .optional()
+    .describe('Sticky session number (1-10000)'),
+
+  optimize_request: z
+    .boolean()
+    .optional()
+    .describe('Let ScrapeOps auto-optimize the request'),
+
+  max_request_cost: z
+    .number()
+    .optional()
+    .describe('Maximum credits allowed for the request'),
+
+  timeout_ms: timeoutSchema,
+
+  cache: cacheModeSchema,
+
+  use_learned_profile: learnedProfileSchema,
+
+  structured_output: structuredOutputSchema,
+});
+
+function buildReturnLinksRequest(params: z.input<typeof returnLinksSchema>): {
+  requestParams: Partial<ScrapeOpsRequestParams>;
+  usedOptions: UsedOptions;
+} {
+  const requestParams: Partial<ScrapeOpsRequestParams> = {
+    url: params.url,
+    return_links: true,
+  };
+
+  const usedOptions: UsedOptions = {};
+
+  if (params.country) {
+    requestParams.country = params.country;
+    usedOptions.country = params.country;
+  }
+  if (params.residential) {
+    requestParams.residential = true;
+    usedOptions.residential = true;
+  }
+  if (params.mobile) {
+    requestParams.mobile = true;
+    usedOptions.mobile = true;
+  }
+  if (params.premium) {
+    requestParams.premium = params.premium;
+    usedOptions.premium = params.premium;
+  }
+  if (params.bypass_level) {
+    requestParams.bypass = params.bypass_level;
+    usedOptions.bypass_level = params.bypass_level;
+  }
+  if (params.session_number) {
+    requestParams.session_number = params.session_number;
+    usedOptions.session_number = params.session_number;
+  }
+  if (params.optimize_request) {
+    requestParams.optimize_request = true;
+    usedOptions.optimize_request = true;
+    if (params.max_request_cost) {
+      requestParams.max_request_cost = params.max_request_cost;
+      usedOptions.max_request_cost = params.max_request_cost;
+    }
+  }
+
+  return { requestParams, usedOptions };
+}
+
+server.addTool({
+  name: 'return_links',
+  canAccess: allowTool('return_links'),
+  description: `Extract and categorize all URLs from a webpage.
+
+**Best for:**
+- Discovering all links on a page
+- Building sitemaps
+- Finding all assets (images, scripts, stylesheets)
+- Web crawling and link analysis
+- Identifying internal vs external links
+
+**What it extracts:**
+- Links from <a>, <area> tags
+- Images from <img src>, <img srcset>
+- Scripts from <script src>
+- Stylesheets from <link href>
+- Media from <video>, <audio>, <source>
+- Embedded content from <iframe>, <object>, <embed>
+- URLs from CSS url() functions
+- Meta refresh redirects
+- Open Graph and meta image URLs
+
+**URL Processing:**
+- Converts relative URLs to absolute
+- Removes duplicates
+- Filters out mailto:, tel:, javascript:, data: URLs
+- Categorizes into pages vs assets
+
+**Returns:** JSON with two arrays:
+- **pages**: HTML documents and navigational URLs
+- **assets**: Static resources (js, css, images, fonts, media)
+
+With structured_output=true, both arrays are the content of the maps_web response envelope.
+
+**Usage Examples:**
+
+1. Basic URL extraction:
+\`\`\`json
+{
+  "name": "return_links",
+  "arguments": {
+    "url": "https://example.com"
+  }
+}
+\`\`\`
+
+2. Extract URLs from protected site:
+\`\`\`json
+{
+  "name": "return_links",
+  "arguments": {
+    "url": "https://protected-site.com",
+    "bypass_level": "generic_level_1"
+  }
+}
+\`\`\`
+
+3. Geo-targeted extraction:
+\`\`\`json
+{
+  "name": "return_links",
+  "arguments": {
+    "url": "https://example.de",
+    "country": "de"
+  }
+}
+\`\`\`
+`,
+  parameters: returnLinksSchema,
+  execute: async (
+    args: unknown,
+    { session, log: clientLog }: { session?: SessionData; log: Logger }
+  ): Promise<string | ContentResult> => {
+    const log = requestLog('return_links', clientLog);
+    const input = args as z.infer<typeof returnLinksSchema>;
+    const { params, profile } = withLearnedProfile(input, input.url);
+    const apiKey = getApiKey(session);
+    const structured = useStructuredOutput(params.structured_output);
+
+    const { requestParams, usedOptions } = buildReturnLinksRequest(params);
+
+    const validation = validateParams(usedOptions);
+
+    if (!validation.valid) {
+      log.error('Parameter validation failed', { errors: validation.errors });
+      if (structured) {
+        const failure = validationFailure(params.url, validation.errors);
+        return envelopeResult(
+          buildEnvelope('return_links', params.url, usedOptions, undefined, { content: null, content_type: null, error: failure })
+        );
+      }
+      return JSON.stringify({
+        success: false,
+        url: params.url,
+        error: 'Invalid parameter combination',
+        validation_errors: validation.errors,
+      }, null, 2);
+    }
+
+    log.info('return_links request', {
+      url: params.url,
+      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic',
+    });
+
+    const result = await proxyRequest({
+      toolName: 'return_links',
+      apiKey,
+      session,
+      params: removeEmptyValues(requestParams),
+      usedOptions,
+      cache: params.cache,
+      learnProfile: true,
+      timeoutMs: params.timeout_ms,
+    }, log);
+
+    if (result.success) {
+      log.info('Links extraction successful');
+      const data = result.data as ScrapeOpsResponse;
+      if (structured) {
+        return envelopeResult(
+          buildEnvelope('return_links', params.url, usedOptions, result, {
+            content: data?.data || data,
+            content_type: 'json',
+            details: {
+              status: data?.status || 'links_extract_successful',
+              ...(profile && { learned_profile: profile.options }),
+            },
+          })
+        );
+      }
+      return JSON.stringify({
+        success: true,
+        url: params.url,
+        status: data?.status || 'links_extract_successful',
+        data: data?.data || data,
+        cache: result.cache,
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+        ...(profile && { learned_profile: profile.options }),
+      }, null, 2);
+    }
 
-    case 'not_found':
-      userMessage = 'Page not found (HTTP 404). Please verify the URL is correct and the page exists.';
-      break;
+    log.warn('Links extraction failed', {
+      error: result.error,
+      errorType: result.errorType,
+      statusCode: result.statusCode,
+    });
 
-    case 'server_error':
-      userMessage = `Server error occurred (HTTP 500). Retried ${retriesAttempted} time(s) but the issue persists.`;
-      canRetryWithAdvanced = wasBasicRequest;
-      suggestedAdvancedParams = {
-        render_js: true,
-      };
-      break;
+    const error = buildErrorResponse(
+      params.url,
+      result.error || 'Unknown error',
+      result.errorType,
+      result.statusCode,
+      usedOptions,
+      result.retriesAttempted || 0,
+      {
+        ...(result.budget && { budget: result.budget }),
+        ...(result.policy && { policy: result.policy }),
+        ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+      }
+    );
+    if (structured) {
+      return envelopeResult(buildEnvelope('return_links', params.url, usedOptions, result, { content: null, content_type: null, error }));
+    }
+    return JSON.stringify(error, null, 2);
+  },
+});
 
-    case 'bad_gateway':
-    case 'service_unavailable':
-      userMessage = `Service temporarily unavailable (HTTP ${statusCode}). This is usually a temporary issue.`;
-      break;
+// ============================================================================
+// Tool 4: crawl_site - Bounded Multi-Page Crawl
+// ============================================================================
 
-    case 'network_error':
-      userMessage = 'Network connection error. Please check your internet connection and try again.';
-      break;
+const crawlSiteSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .describe('Seed URL to start crawling from'),
+
+  max_depth: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .optional()
+    .default(2)
+    .describe('Maximum link depth to follow from the seed URL (0 = seed page only)'),
+
+  max_pages: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .default(20)
+    .describe('Maximum number of pages to fetch. Each page costs at least one request'),
+
+  same_domain: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Only follow links on the same host as the seed URL'),
+
+  include_patterns: z
+    .array(z.string())
+    .optional()
+    .describe('Only follow URLs matching at least one glob. Example: ["https://example.com/blog/**"]'),
+
+  exclude_patterns: z
+    .array(z.string())
+    .optional()
+    .describe('Never follow URLs matching any of these globs. Example: ["**/tag/**", "**?page=*"]'),
+
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .default(3)
+    .describe('Maximum number of pages fetched in parallel'),
+
+  include_content: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also fetch each page through maps_web and include its content. Doubles the number of requests'),
+
+  max_content_chars: z
+    .number()
+    .int()
+    .min(100)
+    .optional()
+    .default(5000)
+    .describe('Maximum characters of content kept per page when include_content is true'),
+
+  output_format: outputFormatSchema,
+
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+    .optional()
+    .describe('Country for geo-targeting'),
+
+  residential: z
+    .boolean()
+    .optional()
+    .describe('Use residential proxies for better success rates'),
+
+  mobile: z
+    .boolean()
+    .optional()
+    .describe('Use mobile proxies'),
+
+  premium: z
+    .enum(['level_1', 'level_2'])
+    .optional()
+    .describe('Premium proxy level'),
+
+  bypass_level: z
+    .enum([
+      'generic_level_1',
+      'generic_level_2',
+      'generic_level_3',
+      'generic_level_4',
+      'cloudflare_level_1',
+      'cloudflare_level_2',
+      'cloudflare_level_3',
+      'datadome',
+      'incapsula',
+      'perimeterx',
+    ])
+    .optional()
+    .describe('Anti-bot bypass level'),
+
+  cache: cacheModeSchema,
+
+  use_learned_profile: learnedProfileSchema,
+});
+
+function normalizeCrawlUrl(value: string): string | undefined {
+  try {
+    const parsed = new URL(value);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return undefined;
+    }
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pull the `pages` array out of a return_links response.
+ */
+function extractLinkPages(data: ScrapeOpsResponse | string | undefined): string[] {
+  const payload = typeof data === 'object' ? (data.data ?? data) : undefined;
+  const pages = (payload as { pages?: unknown } | undefined)?.pages;
+  return Array.isArray(pages) ? pages.filter((page): page is string => typeof page === 'string') : [];
+}
+
+server.addTool({
+  name: 'crawl_site',
+  canAccess: allowTool('crawl_site'),
+  description: `Crawl a website from a seed URL, following links discovered with return_links.
+
+**Best for:**
+- Mapping the structure of a site or section
+- Collecting all article/product URLs under a path
+- Fetching the content of several related pages in one call
+
+**Crawl Controls:**
+- **max_depth / max_pages**: Hard bounds on how far and how much to crawl
+- **same_domain**: Stay on the seed host (default)
+- **include_patterns / exclude_patterns**: URL globs (\`*\` = any except "/", \`**\` = anything)
+- **concurrency**: Pages fetched in parallel
+- **include_content**: Also fetch each page's content through maps_web
+
+Progress is reported through MCP progress notifications as pages complete.
+
+**Usage Examples:**
+
+1. Map a blog section:
+\`\`\`json
+{
+  "name": "crawl_site",
+  "arguments": {
+    "url": "https://example.com/blog/",
+    "max_depth": 2,
+    "max_pages": 50,
+    "include_patterns": ["https://example.com/blog/**"]
+  }
+}
+\`\`\`
+
+2. Crawl with page content:
+\`\`\`json
+{
+  "name": "crawl_site",
+  "arguments": {
+    "url": "https://docs.example.com",
+    "max_pages": 10,
+    "include_content": true
+  }
+}
+\`\`\`
+
+**Returns:** JSON crawl graph with **nodes** (crawled pages with depth, status and optional content; status is "content_error" when the links were read but the content fetch failed) and **edges** (links between pages that passed the filters).
+
+**IMPORTANT:** Every page costs credits. Keep max_pages small unless the user asks for a large crawl.`,
+  parameters: crawlSiteSchema,
+  execute: async (
+    args: unknown,
+    { session, log: clientLog, reportProgress }: { session?: SessionData; log: Logger; reportProgress: (progress: Progress) => Promise<void> }
+  ): Promise<string> => {
+    const log = requestLog('crawl_site', clientLog);
+    const params = args as z.infer<typeof crawlSiteSchema>;
+    const apiKey = getApiKey(session);
+
+    const seedUrl = normalizeCrawlUrl(params.url);
+    if (!seedUrl) {
+      return JSON.stringify({
+        success: false,
+        url: params.url,
+        error: 'Seed URL must be an http:// or https:// URL.',
+      }, null, 2);
+    }
+
+    const proxyOptions = {
+      country: params.country,
+      residential: params.residential,
+      mobile: params.mobile,
+      premium: params.premium,
+      bypass_level: params.bypass_level,
+      cache: params.cache,
+      use_learned_profile: params.use_learned_profile,
+    };
+    const seedHost = new URL(seedUrl).hostname;
+    const includes = (params.include_patterns || []).map(globToRegExp);
+    const excludes = (params.exclude_patterns || []).map(globToRegExp);
+
+    const shouldFollow = (url: string): boolean => {
+      if (params.same_domain && new URL(url).hostname !== seedHost) return false;
+      if (includes.length > 0 && !includes.some(pattern => pattern.test(url))) return false;
+      return !excludes.some(pattern => pattern.test(url));
+    };
+
+    log.info('crawl_site request', {
+      url: seedUrl,
+      max_depth: params.max_depth,
+      max_pages: params.max_pages,
+      concurrency: params.concurrency,
+    });
+
+    const visited = new Set<string>([seedUrl]);
+    const nodes: CrawlNode[] = [];
+    const edges: CrawlEdge[] = [];
+    let creditsEstimate = 0;
+    let stoppedReason = 'completed' as 'completed' | 'max_pages' | 'budget_exceeded';
+    let frontier = [seedUrl];
+
+    const crawlPage = async (pageUrl: string, depth: number, next: string[]): Promise<void> => {
+      const node: CrawlNode = { url: pageUrl, depth, status: 'error' };
+      try {
+        const { params: pageOptions } = withLearnedProfile(proxyOptions, pageUrl);
+        const { requestParams, usedOptions } = buildReturnLinksRequest({ ...pageOptions, url: pageUrl });
+        const result = await proxyRequest({
+          toolName: 'return_links',
+          apiKey,
+          session,
+          params: removeEmptyValues(requestParams),
+          usedOptions,
+          cache: params.cache,
+          learnProfile: true,
+        }, log);
+        creditsEstimate += result.creditsEstimate;
+
+        node.status = result.success ? 'ok' : 'error';
+        if (!result.success) {
+          node.error = result.error;
+          node.error_type = result.errorType;
+          if (result.errorType === 'budget_exceeded') {
+            stoppedReason = 'budget_exceeded';
+          }
+        } else {
+          const pages = extractLinkPages(result.data);
+          node.links_found = pages.length;
+          for (const page of pages) {
+            const link = normalizeCrawlUrl(page);
+            if (!link || !shouldFollow(link)) continue;
+            edges.push({ from: pageUrl, to: link });
+            if (depth < params.max_depth && !visited.has(link)) {
+              visited.add(link);
+              next.push(link);
+            }
+          }
+
+          if (params.include_content) {
+            const page = buildMapsWebRequest({ ...pageOptions, url: pageUrl });
+            const content = await proxyRequest({
+              toolName: 'maps_web',
+              apiKey,
+              session,
+              params: removeEmptyValues(page.requestParams),
+              usedOptions: page.usedOptions,
+              cache: params.cache,
+              learnProfile: true,
+            }, log);
+            creditsEstimate += content.creditsEstimate;
+            if (content.success) {
+              node.content = formatContent(content.data, params.output_format, pageUrl, params.max_content_chars);
+            } else {
+              node.status = 'content_error';
+              node.error = content.error;
+              node.error_type = content.errorType;
+              if (content.errorType === 'budget_exceeded') {
+                stoppedReason = 'budget_exceeded';
+              }
+            }
+          }
+        }
+      } catch (error) {
+        // Raised while handling a response rather than by the request itself.
+        // The page is recorded as failed and the crawl goes on.
+        node.status = node.links_found === undefined ? 'error' : 'content_error';
+        node.error = error instanceof Error ? error.message : String(error);
+        node.error_type = 'processing_failed';
+      } finally {
+        nodes.push(node);
+        await reportProgress({ progress: nodes.length, total: params.max_pages });
+      }
+    };
+
+    for (let depth = 0; depth <= params.max_depth && frontier.length > 0; depth++) {
+      const remaining = params.max_pages - nodes.length;
+      if (remaining <= 0) {
+        stoppedReason = 'max_pages';
+        break;
+      }
+      const batch = frontier.slice(0, remaining);
+      const next: string[] = [];
+      await runWithConcurrency(batch, params.concurrency, async url => {
+        if (stoppedReason === 'budget_exceeded') return;
+        await crawlPage(url, depth, next);
+      });
+      if (stoppedReason === 'budget_exceeded') break;
+      if (batch.length < frontier.length) {
+        stoppedReason = 'max_pages';
+        break;
+      }
+      frontier = next;
+    }
+
+    log.info('Crawl finished', { pages: nodes.length, stoppedReason });
+
+    return JSON.stringify({
+      success: nodes.some(node => node.status === 'ok'),
+      url: seedUrl,
+      pages_crawled: nodes.length,
+      pages_failed: nodes.filter(node => node.status === 'error').length,
+      content_failed: nodes.filter(node => node.status === 'content_error').length,
+      stopped_reason: stoppedReason,
+      credits_estimate: creditsEstimate,
+      nodes,
+      edges,
+    }, null, 2);
+  },
+});
+
+// ============================================================================
+// Tool 5: batch_browse - Concurrent Multi-URL Browsing
+// ============================================================================
+
+const batchBrowseSchema = mapsWebSchema.omit({ url: true }).extend({
+  urls: z
+    .array(z.string().url())
+    .min(1)
+    .max(200)
+    .describe('List of webpage URLs to browse with identical options. Must include protocol (http:// or https://)'),
+
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(5)
+    .describe('Maximum number of URLs fetched in parallel'),
+});
+
+server.addTool({
+  name: 'batch_browse',
+  canAccess: allowTool('batch_browse'),
+  description: `Browse a list of webpages concurrently with the same options as maps_web.
+
+**Best for:**
+- Scraping many known URLs in one call (research lists, product pages, search results)
+- Replacing dozens of separate maps_web calls
+
+**Behavior:**
+- Accepts every maps_web option (render_js, residential, bypass_level, screenshot, actions, method/headers/body, escalation, structured_output, ...) and applies it to each URL as maps_web would
+- Runs up to \`concurrency\` requests in parallel
+- Each URL succeeds or fails on its own: failures use the same error structure as maps_web and never fail the whole batch
+- Browser actions and escalation are reported per URL; escalation walks its ladder separately for each blocked URL
+- With structured_output, each result is the JSON envelope maps_web would return
+- Progress is reported through MCP progress notifications
+
+**Usage Example:**
+\`\`\`json
+{
+  "name": "batch_browse",
+  "arguments": {
+    "urls": ["https://example.com/a", "https://example.com/b"],
+    "concurrency": 5
+  }
+}
+\`\`\`
+
+**Returns:** JSON with per-URL results in input order, plus succeeded/failed counts.
+
+**IMPORTANT:** Every URL costs credits. Follow the same default-to-basic-settings rules as maps_web.`,
+  parameters: batchBrowseSchema,
+  execute: async (
+    args: unknown,
+    { session, log: clientLog, reportProgress }: { session?: SessionData; log: Logger; reportProgress: (progress: Progress) => Promise<void> }
+  ): Promise<string | ContentResult> => {
+    const log = requestLog('batch_browse', clientLog);
+    const { urls, concurrency, ...options } = args as z.infer<typeof batchBrowseSchema>;
+    const apiKey = getApiKey(session);
+    const structured = useStructuredOutput(options.structured_output);
+
+    const { usedOptions } = buildMapsWebRequest({ ...options, url: urls[0] });
+    const validation = validateParams({
+      ...options,
+      ...usedOptions,
+      render_js: options.render_js ?? usedOptions.render_js,
+    });
+
+    if (!validation.valid) {
+      log.error('Parameter validation failed', { errors: validation.errors });
+      return JSON.stringify({
+        success: false,
+        urls,
+        error: 'Invalid parameter combination',
+        validation_errors: validation.errors,
+        action_required: 'Please fix the parameter conflicts and try again.',
+      }, null, 2);
+    }
+
+    if (validation.warnings.length > 0) {
+      log.warn('Parameter validation warnings', { warnings: validation.warnings });
+    }
+
+    log.info('batch_browse request', {
+      urls: urls.length,
+      concurrency,
+      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic (no extra options)',
+    });
+
+    let completed = 0;
+    let creditsEstimate = 0;
+    const images: Content[] = [];
+    const policy = resolveEscalationPolicy(options.escalation);
+
+    const results = await runWithConcurrency(urls, concurrency, async (url): Promise<BatchBrowseResult> => {
+      const { params: urlOptions, profile } = withLearnedProfile(options, url);
+      const params = { ...urlOptions, url };
+      const { requestParams, usedOptions, forward } = buildMapsWebRequest(params);
+      try {
+        const { result, usedOptions: finalOptions, escalation } = await proxyRequestWithEscalation(
+          {
+            toolName: 'maps_web',
+            apiKey,
+            session,
+            params: removeEmptyValues(requestParams),
+            usedOptions,
+            cache: options.cache,
+            learnProfile: true,
+            timeoutMs: options.timeout_ms,
+            forward,
+          },
+          policy,
+          stepOptions => {
+            const next = { ...params, ...stepOptions } as typeof params;
+            const built = buildMapsWebRequest(next);
+            return validateParams({ ...next, ...built.usedOptions }).valid
+              ? { params: removeEmptyValues(built.requestParams), usedOptions: built.usedOptions }
+              : undefined;
+          },
+          log
+        );
+        creditsEstimate += result.creditsEstimate;
+        const extras = {
+          ...(profile && { learned_profile: profile.options }),
+          ...(params.actions && result.success && { actions: buildActionReport(params.actions, result.data) }),
+          ...(escalation && { escalation }),
+        };
+
+        if (result.success) {
+          const raw = typeof result.data === 'object' ? result.data?.screenshot : undefined;
+          if (options.screenshot && raw) {
+            const screenshot = await processScreenshot(raw, {
+              format: options.screenshot_format || 'png',
+              maxWidth: options.screenshot_max_width,
+              maxBytes: options.screenshot_max_bytes,
+            });
+            const path = options.screenshot_delivery === 'file' ? await saveScreenshot(screenshot, url) : undefined;
+            if (!path) {
+              images.push({ type: 'image', data: screenshot.buffer.toString('base64'), mimeType: screenshot.mimeType });
+            }
+            const delivery = path ? { screenshot_path: path } : { screenshot_attachment: images.length };
+            if (structured) {
+              return buildEnvelope('batch_browse', url, finalOptions, result, {
+                content: { ...describeScreenshot(screenshot), ...delivery },
+                content_type: 'image',
+                details: extras,
+                warnings: validation.warnings,
+              });
+            }
+            return {
+              success: true,
+              url,
+              status_code: result.statusCode,
+              ...delivery,
+              ...extras,
+              cache: result.cache,
+              ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+            };
+          }
+
+          // Actions switch on JSON mode for the step report; the page itself is
+          // under `data`.
+          const page = params.actions && typeof result.data === 'object' && typeof result.data.data === 'string'
+            ? result.data.data
+            : result.data;
+          if (structured) {
+            return buildEnvelope('batch_browse', url, finalOptions, result, {
+              content: typeof page === 'string'
+                ? formatContent(page, options.output_format, url, options.max_output_chars)
+                : page,
+              content_type: envelopeContentType(page, options.output_format),
+              details: extras,
+              warnings: validation.warnings,
+            });
+          }
+          return {
+            success: true,
+            url,
+            status_code: result.statusCode,
+            content: formatContent(page, options.output_format, url, options.max_output_chars),
+            ...extras,
+            cache: result.cache,
+            ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+          };
+        }
+        const error = buildErrorResponse(
+          url,
+          result.error || 'Unknown error',
+          result.errorType,
+          result.statusCode,
+          finalOptions,
+          result.retriesAttempted || 0,
+          {
+            ...(result.budget && { budget: result.budget }),
+            ...(result.policy && { policy: result.policy }),
+            ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+            ...(escalation && { escalation }),
+          }
+        );
+        return structured
+          ? buildEnvelope('batch_browse', url, finalOptions, result, { content: null, content_type: null, error })
+          : error;
+      } catch (error) {
+        // Raised while handling a response (e.g. decoding or saving a
+        // screenshot) rather than by the request itself.
+        return buildErrorResponse(url, error instanceof Error ? error.message : String(error), 'processing_failed', undefined, usedOptions);
+      } finally {
+        completed++;
+        await reportProgress({ progress: completed, total: urls.length });
+      }
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    log.info('Batch finished', { succeeded, failed: results.length - succeeded });
+
+    const summary = JSON.stringify({
+      success: succeeded > 0,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      credits_estimate: creditsEstimate,
+      ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+      ...(images.length > 0 && { screenshots: 'Screenshots are attached as image content before this summary, in the order given by each result\'s screenshot_attachment' }),
+      results,
+    }, null, 2);
+
+    if (images.length === 0) {
+      return summary;
+    }
+    return { content: [...images, { type: 'text', text: summary }] };
+  },
+});
+
+// ============================================================================
+// Tool 6: domain_profiles - Learned Per-Domain Proxy Settings
+// ============================================================================
+
+const domainProfilesSchema = z.object({
+  action: z
+    .enum(['list', 'get', 'clear'])
+    .optional()
+    .default('list')
+    .describe('"list" returns every learned profile, "get" one domain\'s profile, "clear" removes one domain\'s profile (or all of them when no domain is given)'),
+
+  domain: z
+    .string()
+    .optional()
+    .describe('Domain to inspect or clear, e.g. "example.com". A leading "www." is ignored. Required for "get"'),
+});
+
+server.addTool({
+  name: 'domain_profiles',
+  canAccess: allowTool('domain_profiles'),
+  description: `List, inspect and clear the proxy settings learned per domain.
+
+Every successful page request records which options (residential, mobile, premium, bypass_level, render_js) worked for its domain; a success with cheaper options does not replace a stored profile. Blocked requests (HTTP 403/429) are counted against the profile. Profiles are used to:
+- Suggest the options that worked before when a request to the domain is blocked
+- Apply the learned options up front when a tool is called with \`use_learned_profile: true\`
+
+**Usage Examples:**
+\`\`\`json
+{ "name": "domain_profiles", "arguments": { "action": "get", "domain": "example.com" } }
+\`\`\`
+\`\`\`json
+{ "name": "domain_profiles", "arguments": { "action": "clear", "domain": "example.com" } }
+\`\`\`
+
+**Returns:** JSON with the matching profiles, or the number of profiles cleared. Costs no credits.`,
+  parameters: domainProfilesSchema,
+  execute: async (args: unknown, { log: clientLog }: { log: Logger }): Promise<string> => {
+    const log = requestLog('domain_profiles', clientLog);
+    const params = args as z.infer<typeof domainProfilesSchema>;
+
+    if (params.action === 'get') {
+      if (!params.domain) {
+        return JSON.stringify({
+          success: false,
+          error: '`domain` is required for action "get".',
+        }, null, 2);
+      }
+      const profile = profileStore.get(`https://${params.domain}`);
+      return JSON.stringify({
+        success: profile !== undefined,
+        domain: params.domain,
+        ...(profile ? { profile } : { error: 'No profile has been learned for this domain yet.' }),
+      }, null, 2);
+    }
+
+    if (params.action === 'clear') {
+      const cleared = params.domain ? Number(await profileStore.delete(params.domain)) : await profileStore.clear();
+      log.info('Domain profiles cleared', { domain: params.domain || 'all', cleared });
+      return JSON.stringify({ success: true, cleared }, null, 2);
+    }
+
+    const profiles = profileStore.list();
+    return JSON.stringify({ success: true, total: profiles.length, profiles }, null, 2);
+  },
+});
+
+// ============================================================================
+// Tool 7: account_status - Credits, Limits and Session Spend
+// ============================================================================
 
-    default:
-      userMessage = error || 'An unknown error occurred.';
-      canRetryWithAdvanced = wasBasicRequest;
-  }
+// The account lookup is a single quick call; a stuck one should not hold up
+// the agent for the length of a render timeout.
+const ACCOUNT_STATUS_TIMEOUT_MS = 30000;
 
-  const response: ErrorResponse = {
-    success: false,
-    url,
-    error: userMessage,
-    error_type: errorType || 'unknown',
-    status_code: statusCode,
-    retries_attempted: retriesAttempted,
-    options_used: wasBasicRequest ? 'none (basic request with default settings)' : usedOptions,
+/**
+ * Local view of what this server has spent and is enforcing for the key and
+ * session, available even when the account lookup fails.
+ */
+function localUsage(apiKey: string, session: SessionData | undefined): Record<string, unknown> {
+  const sessionKey = session || STDIO_SESSION;
+  const budget = (limit: number, spent: number) =>
+    limit > 0 ? { limit, spent, remaining: Math.max(limit - spent, 0) } : null;
+  const limiter = limiterFor(apiKey);
+  return {
+    session_spend: sessionTally.get(sessionKey) || { credits: 0, requests: 0, by_tool: {}, by_domain: {} },
+    budgets: {
+      session: budget(BUDGET_CONFIG.sessionCredits, sessionSpend.get(sessionKey) || 0),
+      api_key: budget(BUDGET_CONFIG.apiKeyCredits, apiKeySpend.get(apiKeyId(apiKey)) || 0),
+      ...(session?.token && {
+        token: budget(session.token.creditQuota || 0, tokenSpend.get(session.token.name) || 0),
+      }),
+    },
+    throttling: {
+      max_concurrent_requests: THROTTLE_CONFIG.maxInFlight || null,
+      rate_limit_per_second: THROTTLE_CONFIG.ratePerSecond || null,
+      ...limiter?.stats(),
+    },
   };
+}
 
-  if (canRetryWithAdvanced && Object.keys(suggestedAdvancedParams).length > 0) {
-    response.permission_request = {
-      message: '⚠️ REQUEST FOR PERMISSION: The basic request failed. I can retry with advanced scraping options that may help, but they will consume more API credits.',
-      question: 'Would you like me to retry with the following advanced options?',
-      suggested_options: suggestedAdvancedParams,
-      estimated_additional_cost: 'Approximately 10-25 additional credits per request',
-      action_required: 'Please confirm by saying "yes, retry with advanced options" or specify which options you want to use.',
-    };
-  } else if (!wasBasicRequest) {
-    response.diagnostic = {
-      message: 'Advanced options were already used but the request still failed.',
-      tried_options: usedAdvancedParams,
-      possible_causes: [
-        'The target website has very strong anti-bot protection',
-        'The URL may be incorrect or the page may not exist',
-        'The website may be experiencing issues',
-      ],
-      recommendations: [
-        'Verify the URL is correct and accessible in a browser',
-        'Try a different approach or target URL',
-        'Contact ScrapeOps support if the issue persists',
-      ],
-    };
-  }
+server.addTool({
+  name: 'account_status',
+  canAccess: allowTool('account_status'),
+  description: `Check the ScrapeOps account before launching expensive requests.
 
-  return JSON.stringify(response, null, 2);
-}
+Reports whether the API key is valid, the plan's remaining credits and concurrency limit, and what this session has spent so far, per tool and per target domain. Also shows the credit budgets and rate limits this server enforces locally.
 
-function asText(data: unknown): string {
-  if (typeof data === 'string') {
-    return data;
-  }
-  return JSON.stringify(data, null, 2);
-}
+**Usage Example:**
+\`\`\`json
+{ "name": "account_status", "arguments": {} }
+\`\`\`
+
+**Returns:** JSON with \`api_key\`, \`plan\`, \`credits\` (limit, used, remaining), \`concurrency_limit\`, \`session_spend\`, \`budgets\` and \`throttling\`. Costs no credits.`,
+  parameters: z.object({}),
+  execute: async (
+    _args: unknown,
+    { session, log: clientLog }: { session?: SessionData; log: Logger }
+  ): Promise<string> => {
+    const log = requestLog('account_status', clientLog);
+    const apiKey = getApiKey(session);
+    const result = await makeRequest(apiKey, {}, log, {
+      path: 'account',
+      signal: toolCallContext.getStore()?.signal,
+      timeoutMs: ACCOUNT_STATUS_TIMEOUT_MS,
+    });
+
+    if (!result.success) {
+      return JSON.stringify({
+        success: false,
+        api_key: { id: apiKeyId(apiKey), valid: result.errorType === 'auth_failed' ? false : null },
+        error: result.error,
+        error_type: result.errorType,
+        ...(result.statusCode && { status_code: result.statusCode }),
+        ...localUsage(apiKey, session),
+      }, null, 2);
+    }
+
+    const account = (typeof result.data === 'object' ? result.data : {}) as ScrapeOpsAccountResponse;
+    const limit = account.plan_api_credits;
+    const used = account.used_api_credits;
+    return JSON.stringify({
+      success: true,
+      api_key: { id: apiKeyId(apiKey), valid: true },
+      plan: account.plan_name ?? null,
+      credits: {
+        limit: limit ?? null,
+        used: used ?? null,
+        remaining: limit !== undefined && used !== undefined ? Math.max(limit - used, 0) : null,
+      },
+      concurrency_limit: account.concurrency_limit ?? null,
+      ...(account.renewal_date && { renewal_date: account.renewal_date }),
+      ...localUsage(apiKey, session),
+    }, null, 2);
+  },
+});
 
 // ============================================================================
-// Tool 1: browse_webpage - General Purpose Web Browsing
+// Tool 8: paginate_extract - Multi-Page Search Result Extraction
 // ============================================================================
 
-const mapsWebSchema = z.object({
+const paginationSchema = z.discriminatedUnion('strategy', [
+  z.object({
+    strategy: z.literal('auto'),
+  }),
+  z.object({
+    strategy: z.literal('next_selector'),
+    selector: z.string().min(1).describe('CSS selector of the "next page" link, e.g. "a[rel=next]" or ".pagination .next a"'),
+  }),
+  z.object({
+    strategy: z.literal('url_template'),
+    template: z
+      .string()
+      .describe('URL of the following pages with a {page} or {offset} placeholder, e.g. "https://example.com/search?q=tv&page={page}"'),
+    start_page: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .default(1)
+      .describe('Page number of the first page (the `url`). {page} counts up from here'),
+    page_size: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Results per page. {offset} is the number of results before the page. Required for {offset}'),
+  }),
+]);
+
+const paginateExtractSchema = z.object({
   url: z
     .string()
     .url()
-    .describe('Target webpage URL to browse/scrape. Must include protocol (http:// or https://)'),
+    .describe('URL of the first results page'),
+
+  data_schema: z
+    .enum(['product_search_page', 'job_search_page', 'real_estate_search_page'])
+    .describe('Search page schema used to extract the results of every page'),
+
+  pagination: paginationSchema
+    .optional()
+    .default({ strategy: 'auto' })
+    .describe('How to find the next page: "auto" detects the next link among the page links, "next_selector" follows a CSS-selected link, "url_template" fills in a page number or offset'),
+
+  max_pages: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .default(5)
+    .describe('Maximum number of pages to extract'),
+
+  max_credits: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Stop before a page whose estimated cost would take the total over this many credits'),
+
+  dedupe_key: z
+    .string()
+    .optional()
+    .describe('Result field identifying an item across pages, e.g. "url" or "id". Defaults to the first of url, link, product_url, job_url, listing_url and id present, else the whole item'),
 
   render_js: z
     .boolean()
     .optional()
-    .describe('Enable JavaScript rendering for SPAs and dynamic content. Required for sites built with React, Vue, Angular. Auto-enabled by screenshot, wait_for, and scroll. Adds ~5 credits per request'),
+    .describe('Render JavaScript before extraction'),
 
-  screenshot: z
-    .boolean()
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
     .optional()
-    .describe('Capture base64-encoded PNG screenshot of the rendered page. Useful for visual verification, debugging, or capturing dynamic content. Auto-enables render_js and json_response. Adds ~5 credits'),
+    .describe('Country for geo-targeting'),
 
   residential: z
     .boolean()
     .optional()
-    .describe('Use residential IP proxies instead of datacenter IPs. Provides higher success rates on protected sites and avoids datacenter IP blocks. Recommended for challenging sites. Adds ~10 credits'),
+    .describe('Use residential proxies for better success rates'),
 
-  country: z
-    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+  mobile: z
+    .boolean()
     .optional()
-    .describe('Proxy country code for geo-targeting. Use to access region-locked content or see localized versions of websites. Examples: "us" (United States), "gb" (United Kingdom), "de" (Germany), "fr" (France)'),
+    .describe('Use mobile proxies'),
+
+  premium: z
+    .enum(['level_1', 'level_2'])
+    .optional()
+    .describe('Premium proxy level'),
 
   bypass_level: z
     .enum([
@@ -461,400 +5560,447 @@ const mapsWebSchema = z.object({
       'perimeterx',
     ])
     .optional()
-    .describe('Anti-bot bypass strength level. Use generic_level_2 for most protected sites. Use specific levels (cloudflare_level_2, datadome, incapsula, perimeterx) when you know the protection type. Higher levels cost more credits'),
-
-  wait: z
-    .number()
-    .optional()
-    .describe('Wait time in milliseconds before capturing page data. Useful for slow-loading content or animations. Example: 2000 for 2 seconds. Does not auto-enable render_js'),
+    .describe('Anti-bot bypass level'),
 
-  wait_for: z
-    .string()
-    .optional()
-    .describe('CSS selector to wait for before returning response. Waits until the element appears on page. Auto-enables render_js. Example: ".product-list" or "#main-content" or "button.load-more"'),
+  cache: cacheModeSchema,
 
-  scroll: z
-    .number()
-    .optional()
-    .describe('Scroll page by specified pixels before capturing data. Triggers lazy-loaded content and infinite scroll elements. Auto-enables render_js. Example: 1000 to scroll 1000px down'),
+  use_learned_profile: learnedProfileSchema,
+});
 
-  mobile: z
-    .boolean()
-    .optional()
-    .describe('Use mobile proxies instead of desktop proxies. Useful for mobile-specific content or testing mobile versions of sites'),
+// Query params that number pages, and those that count results skipped.
+const PAGE_NUMBER_PARAMS = ['page', 'p', 'pg', 'paged', 'pagenum', 'page_number', 'pagenumber'];
+const PAGE_OFFSET_PARAMS = ['offset', 'start', 'from', 'skip'];
 
-  premium: z
-    .enum(['level_1', 'level_2'])
-    .optional()
-    .describe('Premium proxy tier for maximum success rates on very difficult sites. Significantly higher cost. Use only when other options fail'),
+// Result fields tried, in order, to recognise the same item on two pages.
+const ITEM_KEY_FIELDS = ['url', 'link', 'product_url', 'job_url', 'listing_url', 'id'];
 
-  device_type: z
-    .enum(['desktop', 'mobile'])
-    .optional()
-    .describe('User-agent device type. Affects how sites render and serve content. Default is desktop. Use mobile for mobile-optimized pages'),
+function fillPageTemplate(template: string, index: number, startPage: number, pageSize: number | undefined): string {
+  return template
+    .replaceAll('{page}', String(startPage + index))
+    .replaceAll('{offset}', String(index * (pageSize ?? 0)));
+}
 
-  follow_redirects: z
-    .boolean()
-    .optional()
-    .describe('Whether to follow HTTP redirects (3xx status codes). Enabled by default. Set to false to capture redirect responses'),
+function splitPathPage(pathname: string): { base: string; page: number } {
+  const match = pathname.match(/\/page\/(\d+)\/?$/);
+  return match
+    ? { base: pathname.slice(0, match.index), page: parseInt(match[1], 10) }
+    : { base: pathname.replace(/\/$/, ''), page: 1 };
+}
 
-  return_status_codes: z
-    .boolean()
-    .optional()
-    .describe('Include initial and final HTTP status codes in JSON response. Useful for debugging redirects and response codes. Forces json_response output'),
+/**
+ * Whether `to` is the page after `from`: the same path and query except for a
+ * page number one higher (`?page=`, `/page/<n>`) or an offset further along.
+ */
+function isNextPage(from: URL, to: URL): boolean {
+  if (to.origin !== from.origin) return false;
+  const fromPath = splitPathPage(from.pathname);
+  const toPath = splitPathPage(to.pathname);
+  if (fromPath.base !== toPath.base) return false;
+
+  const keys = new Set([...from.searchParams.keys(), ...to.searchParams.keys()]);
+  const changed = [...keys].filter(key => from.searchParams.get(key) !== to.searchParams.get(key));
+  if (toPath.page !== fromPath.page) {
+    return changed.length === 0 && toPath.page === fromPath.page + 1;
+  }
+  if (changed.length !== 1) return false;
 
-  keep_headers: z
-    .boolean()
-    .optional()
-    .describe('Return HTTP response headers in output. Useful for debugging or analyzing server responses'),
+  const [key] = changed;
+  const next = parseInt(to.searchParams.get(key) || '', 10);
+  const current = from.searchParams.get(key);
+  if (PAGE_NUMBER_PARAMS.includes(key.toLowerCase())) {
+    return next === (current === null ? 1 : parseInt(current, 10)) + 1;
+  }
+  if (PAGE_OFFSET_PARAMS.includes(key.toLowerCase())) {
+    return next > (current === null ? 0 : parseInt(current, 10));
+  }
+  return false;
+}
 
-  session_number: z
-    .number()
-    .optional()
-    .describe('Sticky session ID (1-10000) for maintaining cookies and state across multiple requests. Use same number for related requests to maintain session'),
+function detectNextPage(pageUrl: string, links: string[]): string | undefined {
+  const from = new URL(pageUrl);
+  for (const link of links) {
+    const to = normalizeCrawlUrl(link);
+    if (to && isNextPage(from, new URL(to))) {
+      return to;
+    }
+  }
+  return undefined;
+}
 
-  optimize_request: z
-    .boolean()
-    .optional()
-    .describe('Let ScrapeOps automatically optimize parameters for best success/cost ratio. Recommended for cost optimization. Can be combined with max_request_cost'),
+/**
+ * Find the result list in a search page extraction: the extracted data when
+ * it is an array, else its longest array (e.g. `products`, `jobs`).
+ */
+function extractResultItems(data: ScrapeOpsResponse | string | undefined): unknown[] {
+  const payload: unknown = typeof data === 'object' ? (data.data ?? data) : undefined;
+  if (Array.isArray(payload)) return payload;
+  if (!payload || typeof payload !== 'object') return [];
+  return Object.values(payload)
+    .filter((value): value is unknown[] => Array.isArray(value))
+    .reduce((longest, list) => (list.length > longest.length ? list : longest), []);
+}
 
-  max_request_cost: z
-    .number()
-    .optional()
-    .describe('Maximum credits to spend on this request. Only works with optimize_request: true. Helps control costs by setting a credit limit'),
-});
+function resultItemKey(item: unknown, field: string | undefined): string {
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>;
+    for (const key of field ? [field] : ITEM_KEY_FIELDS) {
+      const value = record[key];
+      if (typeof value === 'string' || typeof value === 'number') {
+        return `${key}:${value}`;
+      }
+    }
+  }
+  return JSON.stringify(item);
+}
 
 server.addTool({
-  name: 'maps_web',
-  description: `Browse and scrape any webpage with advanced proxy and rendering capabilities.
+  name: 'paginate_extract',
+  canAccess: allowTool('paginate_extract'),
+  description: `Extract search or listing results across several pages and merge them into one de-duplicated list.
+
+extract_data with a search page schema returns a single page of results. This tool runs the same LLM extraction page after page.
 
 **Best for:**
-- Reading webpage content
-- Taking screenshots of websites
-- Verifying how a site looks from different countries
-- Bypassing anti-bot protections
-- Accessing JavaScript-rendered content
+- Collecting every product from a category or search results page
+- Gathering job listings or property listings spread over pages
 
-**Key Features:**
-- **Geo-targeting**: Access websites from different countries
-- **JavaScript Rendering**: Render SPAs and dynamic content
-- **Residential/Mobile Proxies**: Better success on challenging sites
-- **Screenshots**: Capture visual snapshots of pages
-- **Anti-Bot Bypass**: Multiple bypass levels for protected sites
-- **Wait Controls**: Wait for elements or time before capture
+**Finding the next page (\`pagination.strategy\`):**
+- **auto** (default): Reads the page links with return_links and follows the one to the next page number or offset
+- **next_selector**: Fetches the page HTML and follows the link matching a CSS selector
+- **url_template**: Fills \`{page}\` or \`{offset}\` in a URL template. No extra request per page
 
-**Usage Examples:**
+**Stops** at max_pages, on a page with no results or no new results, when no next page is found, before exceeding max_credits, or when a page fails.
 
-1. Simple page browse:
-\`\`\`json
-{
-  "name": "maps_web",
-  "arguments": {
-    "url": "https://example.com"
-  }
-}
-\`\`\`
+Progress is reported through MCP progress notifications as pages complete.
 
-2. Screenshot for website:
+**Usage Examples:**
+
+1. Product search results, next page detected automatically:
 \`\`\`json
 {
-  "name": "maps_web",
+  "name": "paginate_extract",
   "arguments": {
-    "url": "https://example.de",
-    "render_js": true,
-    "json_response": true,
-    "screenshot": true
+    "url": "https://shop.example.com/search?q=laptop",
+    "data_schema": "product_search_page",
+    "max_pages": 5
   }
 }
 \`\`\`
 
-3. Access Cloudflare-protected site:
+2. Job listings with a page number in the URL:
 \`\`\`json
 {
-  "name": "maps_web",
+  "name": "paginate_extract",
   "arguments": {
-    "url": "https://protected-site.com",
-    "bypass_level": "cloudflare_level_2",
-    "residential": true,
-    "render_js": true
+    "url": "https://careers.example.com/jobs",
+    "data_schema": "job_search_page",
+    "pagination": { "strategy": "url_template", "template": "https://careers.example.com/jobs?page={page}" },
+    "max_pages": 10,
+    "max_credits": 150
   }
 }
 \`\`\`
 
-4. Wait for dynamic content:
+3. Follow a "next" button:
 \`\`\`json
 {
-  "name": "maps_web",
+  "name": "paginate_extract",
   "arguments": {
-    "url": "https://spa-app.com",
-    "render_js": true,
-    "wait_for": ".product-list",
-    "wait": 2000
+    "url": "https://homes.example.com/for-sale/austin",
+    "data_schema": "real_estate_search_page",
+    "pagination": { "strategy": "next_selector", "selector": "a.pagination-next" },
+    "dedupe_key": "listing_url"
   }
 }
 \`\`\`
 
-**Returns:** HTML content, or JSON with screenshot (base64) if screenshot=true.
+**Returns:** JSON with the merged **items**, a **pages** list (URL, results found and new results per page), duplicates_removed, stopped_reason and credits_estimate.
 
-**IMPORTANT - Default Behavior:**
-- Always start with BASIC settings (just the URL)
-- Do NOT use advanced parameters (render_js, residential, bypass_level, premium) unless:
-  1. The user explicitly requests them, OR
-  2. A previous request failed AND the user gives permission to use them
-
-**If a request fails:**
-- The error response will ask for permission to retry with advanced options
-- Wait for user confirmation before using advanced parameters
-- Never auto-enable advanced parameters without user consent`,
-  parameters: mapsWebSchema,
+**IMPORTANT:** Every page is an LLM extraction, and the auto and next_selector strategies add one request per page to find the next one. Set max_credits for long result sets.`,
+  parameters: paginateExtractSchema,
   execute: async (
     args: unknown,
-    { session, log }: { session?: SessionData; log: Logger }
+    { session, log: clientLog, reportProgress }: { session?: SessionData; log: Logger; reportProgress: (progress: Progress) => Promise<void> }
   ): Promise<string> => {
-    const params = args as z.infer<typeof mapsWebSchema>;
+    const log = requestLog('paginate_extract', clientLog);
+    const params = args as z.infer<typeof paginateExtractSchema>;
     const apiKey = getApiKey(session);
+    const { pagination } = params;
 
-    const requestParams: Partial<ScrapeOpsRequestParams> = {
-      url: params.url,
-    };
-
-    const usedOptions: UsedOptions = {};
-    if (params.country) {
-      requestParams.country = params.country;
-      usedOptions.country = params.country;
-    }
-    if (params.residential) {
-      requestParams.residential = true;
-      usedOptions.residential = true;
-    }
-    if (params.mobile) {
-      requestParams.mobile = true;
-      usedOptions.mobile = true;
-    }
-    if (params.premium) {
-      requestParams.premium = params.premium;
-      usedOptions.premium = params.premium;
-    }
-
-    if (params.render_js) {
-      requestParams.render_js = true;
-      usedOptions.render_js = true;
-    }
-    if (params.wait_for) {
-      requestParams.wait_for = params.wait_for;
-      requestParams.render_js = true;
-      usedOptions.wait_for = params.wait_for;
-      usedOptions.render_js = true;
-    }
-    if (params.wait) {
-      requestParams.wait = params.wait;
-      usedOptions.wait = params.wait;
-    }
-    if (params.scroll) {
-      requestParams.scroll = params.scroll;
-      requestParams.render_js = true;
-      usedOptions.scroll = params.scroll;
-      usedOptions.render_js = true;
-    }
-
-    if (params.screenshot) {
-      requestParams.screenshot = true;
-      requestParams.render_js = true;
-      requestParams.json_response = true;
-      usedOptions.screenshot = true;
-      usedOptions.render_js = true;
-    }
-
-    if (params.bypass_level) {
-      requestParams.bypass = params.bypass_level;
-      usedOptions.bypass_level = params.bypass_level;
-    }
-
-    if (params.device_type) {
-      requestParams.device_type = params.device_type;
-      usedOptions.device_type = params.device_type;
-    }
-    if (params.follow_redirects !== undefined) {
-      requestParams.follow_redirects = params.follow_redirects;
-      usedOptions.follow_redirects = params.follow_redirects;
-    }
-    if (params.return_status_codes) {
-      requestParams.initial_status_code = true;
-      requestParams.final_status_code = true;
-      requestParams.json_response = true;
-      usedOptions.return_status_codes = true;
-    }
-    if (params.keep_headers) {
-      requestParams.keep_headers = true;
-      usedOptions.keep_headers = true;
-    }
-    if (params.session_number) {
-      requestParams.session_number = params.session_number;
-      usedOptions.session_number = params.session_number;
-    }
-    if (params.optimize_request) {
-      requestParams.optimize_request = true;
-      usedOptions.optimize_request = true;
-      if (params.max_request_cost) {
-        requestParams.max_request_cost = params.max_request_cost;
-        usedOptions.max_request_cost = params.max_request_cost;
-      }
-    }
-
-    const validation = validateParams({
-      ...params,
-      ...usedOptions,
-    });
-
-    if (!validation.valid) {
-      log.error('Parameter validation failed', { errors: validation.errors });
+    const seedUrl = normalizeCrawlUrl(params.url);
+    if (!seedUrl) {
       return JSON.stringify({
         success: false,
         url: params.url,
-        error: 'Invalid parameter combination',
-        validation_errors: validation.errors,
-        action_required: 'Please fix the parameter conflicts and try again.',
+        error: 'URL must be an http:// or https:// URL.',
       }, null, 2);
     }
 
-    if (validation.warnings.length > 0) {
-      log.warn('Parameter validation warnings', { warnings: validation.warnings });
+    if (pagination.strategy === 'url_template') {
+      const errors: string[] = [];
+      const { template } = pagination;
+      if (!template.includes('{page}') && !template.includes('{offset}')) {
+        errors.push('`pagination.template` must contain a {page} or {offset} placeholder.');
+      } else if (!normalizeCrawlUrl(fillPageTemplate(template, 1, pagination.start_page, pagination.page_size))) {
+        errors.push('`pagination.template` must be an http:// or https:// URL once the placeholder is filled in.');
+      }
+      if (template.includes('{offset}') && !pagination.page_size) {
+        errors.push('`pagination.page_size` is required to fill in {offset}.');
+      }
+      if (errors.length > 0) {
+        return JSON.stringify(validationFailure(params.url, errors), null, 2);
+      }
     }
 
-    log.info('maps_web request', {
-      url: params.url,
-      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic (no extra options)',
+    const proxyOptions = {
+      render_js: params.render_js,
+      country: params.country,
+      residential: params.residential,
+      mobile: params.mobile,
+      premium: params.premium,
+      bypass_level: params.bypass_level,
+      cache: params.cache,
+      use_learned_profile: params.use_learned_profile,
+    };
+
+    log.info('paginate_extract request', {
+      url: seedUrl,
+      data_schema: params.data_schema,
+      strategy: pagination.strategy,
+      max_pages: params.max_pages,
+      max_credits: params.max_credits,
     });
 
-    const result = await makeRequest(apiKey, removeEmptyValues(requestParams), log);
+    /**
+     * Find the page after `pageUrl`. Template pages need no request; the other
+     * strategies fetch the page once more, as HTML or as links.
+     */
+    const findNextPage = async (
+      pageUrl: string,
+      index: number,
+      pageOptions: typeof proxyOptions
+    ): Promise<{ url?: string; credits: number; error?: string; errorType?: ErrorType }> => {
+      if (pagination.strategy === 'url_template') {
+        return {
+          url: normalizeCrawlUrl(fillPageTemplate(pagination.template, index + 1, pagination.start_page, pagination.page_size)),
+          credits: 0,
+        };
+      }
 
-    if (result.success) {
-      log.info('Request successful', { statusCode: result.statusCode });
+      const built = pagination.strategy === 'next_selector'
+        ? buildMapsWebRequest({ ...pageOptions, url: pageUrl })
+        : buildReturnLinksRequest({ ...pageOptions, url: pageUrl });
+      const result = await proxyRequest({
+        toolName: pagination.strategy === 'next_selector' ? 'maps_web' : 'return_links',
+        apiKey,
+        session,
+        params: removeEmptyValues(built.requestParams),
+        usedOptions: built.usedOptions,
+        cache: params.cache,
+        learnProfile: true,
+      }, log);
+      if (!result.success) {
+        return { credits: result.creditsEstimate, error: result.error, errorType: result.errorType };
+      }
 
-      // Handle screenshot response
-      if (params.screenshot && typeof result.data === 'object' && result.data?.screenshot) {
-        return JSON.stringify({
-          success: true,
-          url: params.url,
-          screenshot: result.data.screenshot,
-          screenshot_type: 'base64_png',
-          screenshot_usage: 'Decode this base64 string to get the PNG image',
-          message: 'Screenshot captured successfully',
-          ...(result.data.initial_status_code && { initial_status_code: result.data.initial_status_code }),
-          ...(result.data.final_status_code && { final_status_code: result.data.final_status_code }),
-        }, null, 2);
+      if (pagination.strategy === 'auto') {
+        return { url: detectNextPage(pageUrl, extractLinkPages(result.data)), credits: result.creditsEstimate };
+      }
+      try {
+        const href = parseContentDocument(asText(result.data), pageUrl).querySelector(pagination.selector)?.getAttribute('href');
+        return { url: href ? normalizeCrawlUrl(href) : undefined, credits: result.creditsEstimate };
+      } catch (error) {
+        return {
+          credits: result.creditsEstimate,
+          error: `Invalid selector ${JSON.stringify(pagination.selector)}: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    };
+
+    const pages: PaginationPage[] = [];
+    const items: unknown[] = [];
+    const seen = new Set<string>();
+    const visited = new Set<string>();
+    let itemsFound = 0;
+    let creditsEstimate = 0;
+    let stoppedReason: PaginationStopReason = 'max_pages';
+    let pageUrl = seedUrl;
+
+    for (let index = 0; index < params.max_pages; index++) {
+      visited.add(pageUrl);
+      const { params: pageOptions } = withLearnedProfile(proxyOptions, pageUrl);
+      const { requestParams, usedOptions } = buildExtractDataRequest({
+        ...pageOptions,
+        url: pageUrl,
+        mode: 'llm',
+        data_schema: params.data_schema,
+      });
+
+      const hasNext = index + 1 < params.max_pages;
+      if (params.max_credits) {
+        const discovery = pagination.strategy !== 'url_template' && hasNext
+          ? estimateCredits(usedOptions).credits
+          : 0;
+        const pageCost = estimateCredits(usedOptions, 'llm').credits + discovery;
+        if (creditsEstimate + pageCost > params.max_credits) {
+          stoppedReason = 'credit_cap';
+          break;
+        }
+      }
+
+      const result = await proxyRequest({
+        toolName: 'extract_data',
+        apiKey,
+        session,
+        params: removeEmptyValues(requestParams),
+        usedOptions,
+        cache: params.cache,
+        learnProfile: true,
+      }, log);
+      creditsEstimate += result.creditsEstimate;
+
+      if (!result.success) {
+        pages.push({ page: index + 1, url: pageUrl, status: 'error', error: result.error, error_type: result.errorType });
+        stoppedReason = result.errorType === 'budget_exceeded' ? 'budget_exceeded' : 'page_failed';
+        break;
+      }
+
+      const found = extractResultItems(result.data);
+      let added = 0;
+      for (const item of found) {
+        const key = resultItemKey(item, params.dedupe_key);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        items.push(item);
+        added++;
+      }
+      itemsFound += found.length;
+      const page: PaginationPage = { page: index + 1, url: pageUrl, status: 'ok', items: found.length, new_items: added };
+      pages.push(page);
+      await reportProgress({ progress: index + 1, total: params.max_pages });
+
+      if (found.length === 0) {
+        stoppedReason = 'empty_page';
+        break;
       }
+      if (added === 0) {
+        stoppedReason = 'no_new_items';
+        break;
+      }
+      if (!hasNext) break;
 
-      return asText(result.data);
+      const next = await findNextPage(pageUrl, index, pageOptions);
+      creditsEstimate += next.credits;
+      if (next.error) {
+        page.next_page_error = next.error;
+      }
+      if (next.errorType === 'budget_exceeded') {
+        stoppedReason = 'budget_exceeded';
+        break;
+      }
+      if (!next.url || visited.has(next.url)) {
+        stoppedReason = 'no_next_page';
+        break;
+      }
+      pageUrl = next.url;
     }
 
-    log.warn('Request failed', { 
-      error: result.error, 
-      errorType: result.errorType,
-      statusCode: result.statusCode,
-      retriesAttempted: result.retriesAttempted,
-    });
-    return generateErrorResponse(
-      params.url, 
-      result.error || 'Unknown error', 
-      result.errorType,
-      result.statusCode, 
-      usedOptions,
-      result.retriesAttempted || 0
-    );
+    log.info('Pagination finished', { pages: pages.length, items: items.length, stoppedReason });
+
+    return JSON.stringify({
+      success: pages.some(page => page.status === 'ok'),
+      url: seedUrl,
+      data_schema: params.data_schema,
+      strategy: pagination.strategy,
+      pages_fetched: pages.length,
+      items_found: itemsFound,
+      duplicates_removed: itemsFound - items.length,
+      stopped_reason: stoppedReason,
+      credits_estimate: creditsEstimate,
+      pages,
+      items,
+    }, null, 2);
   },
 });
 
-
 // ============================================================================
-// Tool 2: extract_data - Structured Data Extraction
+// Tool 9: discover_urls - Sitemap and robots.txt Discovery
 // ============================================================================
 
-const extractDataSchema = z.object({
+const isoDateSchema = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date, e.g. "2024-01-31"' });
+
+const discoverUrlsSchema = z.object({
   url: z
     .string()
     .url()
-    .describe('The URL to extract data from'),
-
-  mode: z
-    .enum(['auto', 'llm'])
-    .describe('Extraction mode: "auto" for domain-specific parsing, "llm" for AI-powered extraction'),
+    .describe('Any URL on the site. robots.txt is read from its origin'),
 
-  data_schema: z
-    .enum([
-      'product_page',
-      'product_reviews_page',
-      'product_search_page',
-      'product_seller_page',
-      'job_page',
-      'job_advert_page',
-      'job_search_page',
-      'company_page',
-      'company_job_page',
-      'company_location_page',
-      'company_review_page',
-      'company_search_page',
-      'company_social_media_page',
-      'real_estate_page',
-      'real_estate_profile_page',
-      'real_estate_search_page',
-      'serp_search_page',
-    ])
+  sitemaps: z
+    .array(z.string().url())
     .optional()
-    .describe('Page type schema for optimized LLM extraction'),
+    .describe('Sitemap URLs to read in addition to those listed in robots.txt. When neither gives any, /sitemap.xml is tried'),
 
-  response_format: z
-    .enum(['json', 'markdown'])
+  user_agent: z
+    .string()
+    .min(1)
     .optional()
-    .default('json')
-    .describe('Output format for extracted data'),
+    .default('*')
+    .describe('User agent whose robots.txt rules decide the `disallowed` flag, e.g. "Googlebot". "*" uses the rules for all crawlers'),
 
-  country: z
-    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
+  include_patterns: z
+    .array(z.string())
     .optional()
-    .describe('Country for geo-targeting'),
+    .describe('Only return URLs matching at least one glob. Example: ["https://example.com/blog/**"]'),
 
-  residential: z
-    .boolean()
+  exclude_patterns: z
+    .array(z.string())
     .optional()
-    .describe('Use residential proxies'),
+    .describe('Never return URLs matching any of these globs. Example: ["**/tag/**"]'),
 
-  mobile: z
-    .boolean()
+  modified_after: isoDateSchema
     .optional()
-    .describe('Use mobile proxies'),
+    .describe('Only return URLs whose lastmod is on or after this date. URLs without a lastmod are left out'),
 
-  premium: z
-    .enum(['level_1', 'level_2'])
+  modified_before: isoDateSchema
     .optional()
-    .describe('Premium proxy level'),
+    .describe('Only return URLs whose lastmod is on or before this date. URLs without a lastmod are left out'),
 
-  device_type: z
-    .enum(['desktop', 'mobile'])
+  exclude_disallowed: z
+    .boolean()
     .optional()
-    .describe('Use desktop or mobile user-agents'),
+    .default(false)
+    .describe('Leave out URLs robots.txt disallows for user_agent instead of flagging them'),
 
-  follow_redirects: z
-    .boolean()
+  max_sitemaps: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
     .optional()
-    .describe('Whether to follow HTTP redirects'),
+    .default(20)
+    .describe('Maximum number of sitemap files to fetch, sitemap indexes included. Each costs one request'),
 
-  render_js: z
-    .boolean()
+  max_urls: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
     .optional()
-    .describe('Render JavaScript before extraction'),
+    .default(1000)
+    .describe('Maximum number of URLs to return'),
 
-  wait_for: z
-    .string()
+  country: z
+    .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
     .optional()
-    .describe('CSS selector to wait for before extraction'),
+    .describe('Country for geo-targeting'),
 
-  wait: z
-    .number()
+  residential: z
+    .boolean()
     .optional()
-    .describe('Time to wait in milliseconds'),
+    .describe('Use residential proxies for better success rates'),
 
-  // Anti-bot
   bypass_level: z
     .enum([
       'generic_level_1',
@@ -871,275 +6017,578 @@ const extractDataSchema = z.object({
     .optional()
     .describe('Anti-bot bypass level'),
 
-  keep_headers: z
-    .boolean()
-    .optional()
-    .describe('Return response headers'),
+  cache: cacheModeSchema,
 
-  session_number: z
-    .number()
-    .optional()
-    .describe('Sticky session number'),
+  use_learned_profile: learnedProfileSchema,
+});
 
-  optimize_request: z
-    .boolean()
-    .optional()
-    .describe('Let ScrapeOps auto-optimize the request'),
+/**
+ * Parse an XML sitemap or sitemap index, or a plain-text sitemap with one URL
+ * per line. Throws when the document is neither.
+ */
+function parseSitemap(text: string): { type: NonNullable<SitemapFetch['type']>; entries: SitemapEntry[] } {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('<')) {
+    const entries = trimmed
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => /^https?:\/\//i.test(line))
+      .map(loc => ({ loc }));
+    if (entries.length === 0) {
+      throw new Error('Not a sitemap: no XML and no URLs');
+    }
+    return { type: 'text', entries };
+  }
 
-  max_request_cost: z
-    .number()
-    .optional()
-    .describe('Maximum credits allowed for the request'),
-});
+  const { document } = new JSDOM(trimmed, { contentType: 'text/xml' }).window;
+  const root = document.documentElement.localName;
+  if (root !== 'urlset' && root !== 'sitemapindex') {
+    throw new Error(`Not a sitemap: root element <${root}>`);
+  }
+  // Direct children only: extensions such as image sitemaps nest their own <loc>.
+  const child = (element: Element, name: string) =>
+    Array.from(element.children).find(node => node.localName === name)?.textContent?.trim() || undefined;
+  const entries: SitemapEntry[] = [];
+  for (const element of Array.from(document.documentElement.children)) {
+    const loc = child(element, 'loc');
+    if (!loc) continue;
+    entries.push({
+      loc,
+      ...(child(element, 'lastmod') && { lastmod: child(element, 'lastmod') }),
+      ...(child(element, 'changefreq') && { changefreq: child(element, 'changefreq') }),
+    });
+  }
+  return { type: root, entries };
+}
 
 server.addTool({
-  name: 'extract_data',
-  description: `
-Extract structured data from webpages using auto-parsing or LLM-powered extraction.
+  name: 'discover_urls',
+  canAccess: allowTool('discover_urls'),
+  description: `List a site's URLs from its robots.txt and XML sitemaps, without scraping HTML.
 
-**Best for:**
-- Getting product information (prices, names, descriptions)
-- Extracting job listings data
-- Parsing search results
-- Collecting structured company information
-- Real estate listings extraction
+Reads robots.txt, follows its Sitemap directives (falling back to /sitemap.xml), expands sitemap indexes recursively, including gzipped .xml.gz files, and flags every URL robots.txt disallows for the chosen user agent.
 
-**Extraction Modes:**
-- **auto**: Domain-specific parsers for common sites (Amazon, Google, etc.)
-- **llm**: AI-powered extraction with customizable schemas
+**Best for:**
+- Finding all product, article or listing URLs before crawling
+- Finding pages changed since a date
+- Checking which paths a site asks crawlers to stay away from
 
-**Data Schemas (for LLM mode):**
-- Product: product_page, product_reviews_page, product_search_page, product_seller_page
-- Jobs: job_page, job_advert_page, job_search_page
-- Company: company_page, company_job_page, company_review_page, company_search_page
-- Real Estate: real_estate_page, real_estate_profile_page, real_estate_search_page
-- Search: serp_search_page
+**Filters:**
+- **include_patterns / exclude_patterns**: URL globs (\`*\` = any except "/", \`**\` = anything)
+- **modified_after / modified_before**: lastmod window
+- **exclude_disallowed**: drop URLs robots.txt disallows instead of flagging them
 
 **Usage Examples:**
 
-1. Auto-extract from known domain:
-\`\`\`json
-{
-  "name": "extract_data",
-  "arguments": {
-    "url": "https://www.amazon.com/dp/B09V3KXJPB",
-    "mode": "auto"
-  }
-}
-\`\`\`
-
-2. LLM extraction for product page:
+1. All blog posts changed this year:
 \`\`\`json
 {
-  "name": "extract_data",
+  "name": "discover_urls",
   "arguments": {
-    "url": "https://shop.example.com/product/123",
-    "mode": "llm",
-    "data_schema": "product_page",
-    "response_format": "json"
+    "url": "https://example.com",
+    "include_patterns": ["https://example.com/blog/**"],
+    "modified_after": "2024-01-01"
   }
 }
 \`\`\`
 
-3. Extract job listings with anti-bot bypass:
+2. Product URLs a specific crawler may fetch:
 \`\`\`json
 {
-  "name": "extract_data",
+  "name": "discover_urls",
   "arguments": {
-    "url": "https://careers.example.com/jobs",
-    "mode": "llm",
-    "data_schema": "job_search_page",
-    "bypass_level": "generic_level_2",
-    "render_js": true
+    "url": "https://shop.example.com",
+    "user_agent": "Googlebot",
+    "exclude_disallowed": true,
+    "max_urls": 5000
   }
 }
 \`\`\`
 
-4. Extract real estate data in markdown:
-\`\`\`json
-{
-  "name": "extract_data",
-  "arguments": {
-    "url": "https://realestate.example.com/listing/456",
-    "mode": "llm",
-    "data_schema": "real_estate_page",
-    "response_format": "markdown"
-  }
-}
-\`\`\`
+**Returns:** JSON with **urls** (url, lastmod, changefreq, disallowed), the robots.txt findings, each sitemap fetched, and whether the list was truncated at max_urls.
 
-**Returns:** Structured JSON or Markdown data extracted from the page.
-`,
-  parameters: extractDataSchema,
+**IMPORTANT:** robots.txt and every sitemap file cost one request each. Use max_sitemaps to bound large sitemap indexes.`,
+  parameters: discoverUrlsSchema,
   execute: async (
     args: unknown,
-    { session, log }: { session?: SessionData; log: Logger }
+    { session, log: clientLog, reportProgress }: { session?: SessionData; log: Logger; reportProgress: (progress: Progress) => Promise<void> }
   ): Promise<string> => {
-    const params = args as z.infer<typeof extractDataSchema>;
+    const log = requestLog('discover_urls', clientLog);
+    const params = args as z.infer<typeof discoverUrlsSchema>;
     const apiKey = getApiKey(session);
 
-    const requestParams: Partial<ScrapeOpsRequestParams> = {
-      url: params.url,
-      json_response: true,
-    };
+    const seedUrl = normalizeCrawlUrl(params.url);
+    if (!seedUrl) {
+      return JSON.stringify({
+        success: false,
+        url: params.url,
+        error: 'URL must be an http:// or https:// URL.',
+      }, null, 2);
+    }
+
+    const proxyOptions = {
+      country: params.country,
+      residential: params.residential,
+      bypass_level: params.bypass_level,
+      cache: params.cache,
+      use_learned_profile: params.use_learned_profile,
+    };
+    const includes = (params.include_patterns || []).map(globToRegExp);
+    const excludes = (params.exclude_patterns || []).map(globToRegExp);
+    const after = params.modified_after ? Date.parse(params.modified_after) : undefined;
+    const before = params.modified_before ? Date.parse(params.modified_before) : undefined;
+    let creditsEstimate = 0;
+
+    const fetchFile = async (fileUrl: string): Promise<ProxyRequestResult> => {
+      const { params: fileOptions } = withLearnedProfile(proxyOptions, fileUrl);
+      const { requestParams, usedOptions } = buildMapsWebRequest({ ...fileOptions, url: fileUrl });
+      const result = await proxyRequest({
+        toolName: 'maps_web',
+        apiKey,
+        session,
+        params: removeEmptyValues(requestParams),
+        usedOptions,
+        cache: params.cache,
+      }, log);
+      creditsEstimate += result.creditsEstimate;
+      return result;
+    };
+
+    const wanted = (entry: SitemapEntry): boolean => {
+      if (includes.length > 0 && !includes.some(pattern => pattern.test(entry.loc))) return false;
+      if (excludes.some(pattern => pattern.test(entry.loc))) return false;
+      if (after === undefined && before === undefined) return true;
+      const modified = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+      if (Number.isNaN(modified)) return false;
+      return (after === undefined || modified >= after) && (before === undefined || modified <= before);
+    };
+
+    log.info('discover_urls request', {
+      url: seedUrl,
+      user_agent: params.user_agent,
+      max_sitemaps: params.max_sitemaps,
+      max_urls: params.max_urls,
+    });
+
+    // A missing robots.txt allows everything and lists no sitemaps.
+    const origin = new URL(seedUrl).origin;
+    const robotsUrl = `${origin}/robots.txt`;
+    const robotsResult = await fetchFile(robotsUrl);
+    const robots = robotsResult.success ? parseRobotsTxt(asText(robotsResult.data)) : { groups: [], sitemaps: [] };
+    const { agent, rules } = robotsRulesFor(robots, params.user_agent);
+    const robotsInfo = {
+      url: robotsUrl,
+      found: robotsResult.success,
+      user_agent: params.user_agent,
+      matched_group: agent,
+      sitemaps: robots.sitemaps,
+      ...(!robotsResult.success && robotsResult.errorType !== 'not_found' && {
+        error: robotsResult.error,
+        error_type: robotsResult.errorType,
+      }),
+    };
+
+    const queued = new Set<string>();
+    const queue: string[] = [];
+    const enqueue = (value: string) => {
+      const sitemapUrl = normalizeCrawlUrl(value);
+      if (sitemapUrl && !queued.has(sitemapUrl)) {
+        queued.add(sitemapUrl);
+        queue.push(sitemapUrl);
+      }
+    };
+    [...(params.sitemaps || []), ...robots.sitemaps].forEach(enqueue);
+    if (queue.length === 0) {
+      enqueue(`${origin}/sitemap.xml`);
+    }
+
+    const sitemaps: SitemapFetch[] = [];
+    const urls: DiscoveredUrl[] = [];
+    const seen = new Set<string>();
+    let urlsDisallowed = 0;
+    let truncated = false;
+    let stoppedReason = 'completed' as 'completed' | 'max_sitemaps' | 'budget_exceeded';
+    if (robotsResult.errorType === 'budget_exceeded') {
+      stoppedReason = 'budget_exceeded';
+      queue.length = 0;
+    }
+
+    while (queue.length > 0) {
+      if (sitemaps.length >= params.max_sitemaps) {
+        stoppedReason = 'max_sitemaps';
+        break;
+      }
+      const sitemapUrl = queue.shift()!;
+      const result = await fetchFile(sitemapUrl);
+      if (!result.success) {
+        sitemaps.push({ url: sitemapUrl, status: 'error', error: result.error, error_type: result.errorType });
+        if (result.errorType === 'budget_exceeded') {
+          stoppedReason = 'budget_exceeded';
+          break;
+        }
+        continue;
+      }
+
+      let parsed: ReturnType<typeof parseSitemap>;
+      try {
+        parsed = parseSitemap(asText(result.data));
+      } catch (error) {
+        sitemaps.push({ url: sitemapUrl, status: 'error', error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      sitemaps.push({ url: sitemapUrl, status: 'ok', type: parsed.type, entries: parsed.entries.length });
+      await reportProgress({ progress: sitemaps.length, total: sitemaps.length + queue.length });
+
+      if (parsed.type === 'sitemapindex') {
+        parsed.entries.forEach(entry => enqueue(entry.loc));
+        continue;
+      }
+      for (const entry of parsed.entries) {
+        const pageUrl = normalizeCrawlUrl(entry.loc);
+        if (!pageUrl || seen.has(pageUrl)) continue;
+        seen.add(pageUrl);
+        if (!wanted(entry)) continue;
+        // robots.txt only speaks for its own origin.
+        const disallowed = new URL(pageUrl).origin === origin && matchRobotsRule(rules, pageUrl)?.allow === false;
+        if (disallowed) {
+          urlsDisallowed++;
+          if (params.exclude_disallowed) continue;
+        }
+        if (urls.length >= params.max_urls) {
+          truncated = true;
+          continue;
+        }
+        urls.push({
+          url: pageUrl,
+          ...(entry.lastmod && { lastmod: entry.lastmod }),
+          ...(entry.changefreq && { changefreq: entry.changefreq }),
+          disallowed,
+        });
+      }
+    }
+
+    log.info('URL discovery finished', { sitemaps: sitemaps.length, urls: urls.length, stoppedReason });
+
+    return JSON.stringify({
+      success: sitemaps.some(sitemap => sitemap.status === 'ok'),
+      url: seedUrl,
+      robots_txt: robotsInfo,
+      sitemaps_fetched: sitemaps.length,
+      urls_found: seen.size,
+      urls_disallowed: urlsDisallowed,
+      urls_returned: urls.length,
+      truncated,
+      stopped_reason: stoppedReason,
+      credits_estimate: creditsEstimate,
+      sitemaps,
+      urls,
+    }, null, 2);
+  },
+});
+
+// ============================================================================
+// Page Snapshots
+// ============================================================================
+
+/**
+ * Snapshot histories, one JSON file per monitored page so each can be read
+ * and pruned on its own. Without a directory they live in memory for the
+ * life of the process.
+ */
+class SnapshotStore {
+  private memory = new Map<string, MonitorRecord>();
 
-    const usedOptions: UsedOptions = {};
-    if (params.mode === 'auto') {
-      requestParams.auto_extract = true;
-    } else if (params.mode === 'llm') {
-      requestParams.llm_extract = true;
-      if (params.data_schema) {
-        requestParams.llm_data_schema = params.data_schema;
-      }
-      if (params.response_format) {
-        requestParams.llm_extract_response_type = params.response_format;
+  constructor(private dir: string | undefined) {}
+
+  private path(key: string): string {
+    return join(this.dir!, `${key}.json`);
+  }
+
+  async get(key: string): Promise<MonitorRecord | undefined> {
+    if (!this.dir) return this.memory.get(key);
+    try {
+      return JSON.parse(await readFile(this.path(key), 'utf8')) as MonitorRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        serverLogger.warn('Could not read page snapshots; starting a new history', {
+          path: this.path(key),
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+      return undefined;
     }
+  }
 
-    if (params.country) {
-      requestParams.country = params.country;
-      usedOptions.country = params.country;
-    }
-    if (params.residential) {
-      requestParams.residential = true;
-      usedOptions.residential = true;
-    }
-    if (params.mobile) {
-      requestParams.mobile = true;
-      usedOptions.mobile = true;
-    }
-    if (params.premium) {
-      requestParams.premium = params.premium;
-      usedOptions.premium = params.premium;
+  async set(record: MonitorRecord): Promise<void> {
+    if (!this.dir) {
+      this.memory.set(record.key, record);
+      return;
     }
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.path(record.key), JSON.stringify(record));
+  }
 
-    if (params.render_js) {
-      requestParams.render_js = true;
-      usedOptions.render_js = true;
-    }
-    if (params.wait_for) {
-      requestParams.wait_for = params.wait_for;
-      requestParams.render_js = true;
-      usedOptions.wait_for = params.wait_for;
-      usedOptions.render_js = true;
-    }
-    if (params.wait) {
-      requestParams.wait = params.wait;
-      usedOptions.wait = params.wait;
+  async delete(key: string): Promise<void> {
+    if (!this.dir) {
+      this.memory.delete(key);
+      return;
     }
+    await rm(this.path(key), { force: true });
+  }
+}
 
-    if (params.bypass_level) {
-      requestParams.bypass = params.bypass_level;
-      usedOptions.bypass_level = params.bypass_level;
-    }
+const SNAPSHOT_CONFIG = {
+  dir: process.env.SCRAPEOPS_SNAPSHOT_DIR || join(DATA_DIR, 'snapshots'),
+  maxPerPage: parseInt(process.env.SCRAPEOPS_SNAPSHOT_MAX_PER_PAGE || '20', 10),
+  maxAgeDays: parseInt(process.env.SCRAPEOPS_SNAPSHOT_MAX_AGE_DAYS || '0', 10),
+};
 
-    if (params.device_type) {
-      requestParams.device_type = params.device_type;
-      usedOptions.device_type = params.device_type;
-    }
-    if (params.follow_redirects !== undefined) {
-      requestParams.follow_redirects = params.follow_redirects;
-      usedOptions.follow_redirects = params.follow_redirects;
-    }
-    if (params.keep_headers) {
-      requestParams.keep_headers = true;
-      usedOptions.keep_headers = true;
-    }
-    if (params.session_number) {
-      requestParams.session_number = params.session_number;
-      usedOptions.session_number = params.session_number;
+const snapshotStore = new SnapshotStore(SNAPSHOT_CONFIG.dir === 'none' ? undefined : SNAPSHOT_CONFIG.dir);
+
+function monitorKey(url: string, mode: MonitorMode, selector: string | undefined, dataSchema: string | undefined): string {
+  return createHash('sha256')
+    .update(JSON.stringify([normalizeUrlForCache(url), mode, selector ?? null, dataSchema ?? null]))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+/**
+ * Drop snapshots past the configured count and age. The newest one is always
+ * kept, since the next check diffs against it.
+ */
+function applyRetention(snapshots: PageSnapshot[], now: number): PageSnapshot[] {
+  const maxAgeMs = SNAPSHOT_CONFIG.maxAgeDays * 24 * 60 * 60 * 1000;
+  const kept = snapshots.filter(
+    (snapshot, i) => i === snapshots.length - 1 || maxAgeMs <= 0 || now - Date.parse(snapshot.taken_at) <= maxAgeMs
+  );
+  return SNAPSHOT_CONFIG.maxPerPage > 0 ? kept.slice(-SNAPSHOT_CONFIG.maxPerPage) : kept;
+}
+
+type DiffOp = { type: 'equal' | 'added' | 'removed'; text: string };
+
+// Above this many line pairs the changed middle of a page is reported as
+// replaced wholesale rather than aligned line by line.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff: common head and tail are matched directly, the rest through a
+ * longest-common-subsequence table.
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const ops: DiffOp[] = before.slice(0, start).map(text => ({ type: 'equal', text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const n = a.length;
+  const m = b.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    ops.push(...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text })));
+  } else {
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
     }
-    if (params.optimize_request) {
-      requestParams.optimize_request = true;
-      usedOptions.optimize_request = true;
-      if (params.max_request_cost) {
-        requestParams.max_request_cost = params.max_request_cost;
-        usedOptions.max_request_cost = params.max_request_cost;
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[i] === b[j]) {
+        ops.push({ type: 'equal', text: a[i++] });
+        j++;
+      } else if (j >= m || (i < n && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push({ type: 'removed', text: a[i++] });
+      } else {
+        ops.push({ type: 'added', text: b[j++] });
       }
     }
+  }
 
-    const validation = validateParams({
-      ...params,
-      ...usedOptions,
-    });
+  ops.push(...before.slice(endBefore).map(text => ({ type: 'equal' as const, text })));
+  return ops;
+}
 
-    if (!validation.valid) {
-      log.error('Parameter validation failed', { errors: validation.errors });
-      return JSON.stringify({
-        success: false,
-        url: params.url,
-        error: 'Invalid parameter combination',
-        validation_errors: validation.errors,
-        action_required: 'Please fix the parameter conflicts and try again.',
-      }, null, 2);
+/**
+ * Render a line diff as unified diff hunks with two lines of context.
+ */
+function textDiff(before: string, after: string, maxLines: number): TextDiff {
+  const ops = diffLines(before ? before.split('\n') : [], after ? after.split('\n') : []);
+  const context = 2;
+  const shown = new Array<boolean>(ops.length).fill(false);
+  ops.forEach((op, i) => {
+    if (op.type === 'equal') return;
+    for (let k = Math.max(0, i - context); k <= Math.min(ops.length - 1, i + context); k++) {
+      shown[k] = true;
     }
+  });
 
-    if (validation.warnings.length > 0) {
-      log.warn('Parameter validation warnings', { warnings: validation.warnings });
+  const lines: string[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (let i = 0; i < ops.length; ) {
+    if (!shown[i]) {
+      oldLine++;
+      newLine++;
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < ops.length && shown[end]) end++;
+    const hunk = ops.slice(i, end);
+    const oldCount = hunk.filter(op => op.type !== 'added').length;
+    const newCount = hunk.filter(op => op.type !== 'removed').length;
+    lines.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const op of hunk) {
+      lines.push(`${op.type === 'added' ? '+' : op.type === 'removed' ? '-' : ' '}${op.text}`);
     }
+    oldLine += oldCount;
+    newLine += newCount;
+    i = end;
+  }
 
-    log.info('extract_data request', {
-      url: params.url,
-      mode: params.mode,
-      schema: params.data_schema,
-      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic (no extra options)',
-    });
+  return {
+    lines_added: ops.filter(op => op.type === 'added').length,
+    lines_removed: ops.filter(op => op.type === 'removed').length,
+    unified: lines.slice(0, maxLines).join('\n'),
+    truncated: lines.length > maxLines,
+  };
+}
 
-    const result = await makeRequest(apiKey, removeEmptyValues(requestParams), log);
-    if (result.success) {
-      log.info('Extraction successful');
-      return JSON.stringify({
-        success: true,
-        url: params.url,
-        extraction_mode: params.mode,
-        ...(params.data_schema && { data_schema: params.data_schema }),
-        ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
-        data: result.data,
-      }, null, 2);
+/**
+ * Flatten JSON into leaf paths such as `products[2].price`. Empty objects and
+ * arrays are leaves, so emptying a list shows up as a change.
+ */
+function flattenJson(value: unknown, path = '', leaves = new Map<string, unknown>()): Map<string, unknown> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, i) => flattenJson(item, `${path}[${i}]`, leaves));
+  } else if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenJson(child, path ? `${path}.${key}` : key, leaves);
     }
+  } else {
+    leaves.set(path || '$', value);
+  }
+  return leaves;
+}
 
-    log.warn('Extraction failed', { 
-      error: result.error, 
-      errorType: result.errorType,
-      statusCode: result.statusCode,
-      retriesAttempted: result.retriesAttempted,
-    });
-    return generateErrorResponse(
-      params.url, 
-      result.error || 'Unknown error', 
-      result.errorType,
-      result.statusCode, 
-      usedOptions,
-      result.retriesAttempted || 0
-    );
-  },
-});
+function fieldDiff(before: unknown, after: unknown, maxEntries: number): FieldDiff {
+  const old = flattenJson(before);
+  const current = flattenJson(after);
+  const diff: FieldDiff = { added: [], removed: [], changed: [], truncated: false };
+  for (const [path, value] of current) {
+    if (!old.has(path)) {
+      diff.added.push({ path, value });
+    } else if (JSON.stringify(old.get(path)) !== JSON.stringify(value)) {
+      diff.changed.push({ path, before: old.get(path), after: value });
+    }
+  }
+  for (const [path, value] of old) {
+    if (!current.has(path)) diff.removed.push({ path, value });
+  }
+  diff.truncated = diff.added.length + diff.removed.length + diff.changed.length > maxEntries;
+  diff.changed = diff.changed.slice(0, maxEntries);
+  diff.added = diff.added.slice(0, Math.max(maxEntries - diff.changed.length, 0));
+  diff.removed = diff.removed.slice(0, Math.max(maxEntries - diff.changed.length - diff.added.length, 0));
+  return diff;
+}
+
+function linkDiff(before: string[], after: string[], maxEntries: number): LinkDiff {
+  const old = new Set(before);
+  const current = new Set(after);
+  const added = after.filter(link => !old.has(link));
+  const removed = before.filter(link => !current.has(link));
+  return {
+    added: added.slice(0, maxEntries),
+    removed: removed.slice(0, maxEntries),
+    truncated: added.length > maxEntries || removed.length > maxEntries,
+  };
+}
 
 // ============================================================================
-// Tool 3: return_links - URL Extraction from Webpages
+// Tool 10: monitor_page - Page Change Monitoring
 // ============================================================================
 
-const returnLinksSchema = z.object({
+const monitorPageSchema = z.object({
   url: z
     .string()
     .url()
-    .describe('The URL to extract links from'),
+    .describe('URL of the page to monitor'),
+
+  action: z
+    .enum(['check', 'history', 'clear'])
+    .optional()
+    .default('check')
+    .describe('"check" fetches the page and diffs it against the last snapshot, "history" lists stored snapshots, "clear" deletes them'),
+
+  mode: z
+    .enum(['text', 'extract', 'links'])
+    .optional()
+    .default('text')
+    .describe('What to compare: "text" the page text (optionally of `selector`), "extract" the JSON extracted with `data_schema`, "links" the links found by return_links. Each mode keeps its own history'),
+
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Text mode: CSS selector limiting the comparison to matching elements, e.g. ".pricing-table"'),
+
+  data_schema: extractDataSchema.shape.data_schema.describe('Extract mode: page type schema for LLM extraction, e.g. "product_page"'),
+
+  include_content: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also return the current snapshot content'),
+
+  max_diff_entries: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .optional()
+    .default(200)
+    .describe('Maximum diff lines (text) or entries (fields, links) returned'),
+
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(20)
+    .describe('History: maximum number of snapshots listed, newest first'),
+
+  render_js: z
+    .boolean()
+    .optional()
+    .describe('Render JavaScript before capture (text and extract modes)'),
+
+  wait_for: z
+    .string()
+    .optional()
+    .describe('CSS selector to wait for before capture (text and extract modes)'),
 
   country: z
     .enum(['us', 'gb', 'de', 'fr', 'ca', 'au', 'br', 'in', 'jp', 'nl', 'es', 'it'])
     .optional()
-    .describe('Country for geo-targeting'),
+    .describe('Country for geo-targeting. Keep it the same between checks so regional differences do not show up as changes'),
 
   residential: z
     .boolean()
     .optional()
     .describe('Use residential proxies for better success rates'),
 
-  mobile: z
-    .boolean()
-    .optional()
-    .describe('Use mobile proxies'),
-
   premium: z
     .enum(['level_1', 'level_2'])
     .optional()
@@ -1161,180 +6610,247 @@ const returnLinksSchema = z.object({
     .optional()
     .describe('Anti-bot bypass level'),
 
-  session_number: z
-    .number()
-    .optional()
-    .describe('Sticky session number (1-10000)'),
-
-  optimize_request: z
-    .boolean()
-    .optional()
-    .describe('Let ScrapeOps auto-optimize the request'),
-
-  max_request_cost: z
-    .number()
-    .optional()
-    .describe('Maximum credits allowed for the request'),
+  use_learned_profile: learnedProfileSchema,
 });
 
+/**
+ * Pull the page and asset URLs out of a return_links response, sorted so
+ * link order on the page does not count as a change.
+ */
+function extractAllLinks(data: ScrapeOpsResponse | string | undefined): string[] {
+  const payload = (typeof data === 'object' ? (data.data ?? data) : undefined) as { pages?: unknown; assets?: unknown } | undefined;
+  const links = [payload?.pages, payload?.assets]
+    .flatMap(list => (Array.isArray(list) ? list : []))
+    .filter((link): link is string => typeof link === 'string');
+  return [...new Set(links)].sort();
+}
+
 server.addTool({
-  name: 'return_links',
-  description: `Extract and categorize all URLs from a webpage.
+  name: 'monitor_page',
+  canAccess: allowTool('monitor_page'),
+  description: `Track changes to a page over time. Each check stores a snapshot locally and returns what changed since the previous one.
 
 **Best for:**
-- Discovering all links on a page
-- Building sitemaps
-- Finding all assets (images, scripts, stylesheets)
-- Web crawling and link analysis
-- Identifying internal vs external links
-
-**What it extracts:**
-- Links from <a>, <area> tags
-- Images from <img src>, <img srcset>
-- Scripts from <script src>
-- Stylesheets from <link href>
-- Media from <video>, <audio>, <source>
-- Embedded content from <iframe>, <object>, <embed>
-- URLs from CSS url() functions
-- Meta refresh redirects
-- Open Graph and meta image URLs
+- Watching pricing pages, product pages and job boards
+- Detecting new or removed listings and links
+- Knowing whether a page changed before reading it again
 
-**URL Processing:**
-- Converts relative URLs to absolute
-- Removes duplicates
-- Filters out mailto:, tel:, javascript:, data: URLs
-- Categorizes into pages vs assets
+**Modes:**
+- **text** (default): Page text, optionally limited to a CSS \`selector\`. Returns a unified line diff
+- **extract**: JSON extracted with an extract_data \`data_schema\`. Returns added, removed and changed fields by path
+- **links**: Links found by return_links. Returns added and removed links
 
-**Returns:** JSON with two arrays:
-- **pages**: HTML documents and navigational URLs
-- **assets**: Static resources (js, css, images, fonts, media)
+Snapshots are keyed by URL, mode, selector and data_schema, and are stored only when the content changed. Use \`action: "history"\` to list them and \`action: "clear"\` to delete them.
 
 **Usage Examples:**
 
-1. Basic URL extraction:
+1. Watch a pricing table:
 \`\`\`json
 {
-  "name": "return_links",
+  "name": "monitor_page",
   "arguments": {
-    "url": "https://example.com"
+    "url": "https://example.com/pricing",
+    "selector": ".pricing-table"
   }
 }
 \`\`\`
 
-2. Extract URLs from protected site:
+2. Watch a product's extracted fields:
 \`\`\`json
 {
-  "name": "return_links",
+  "name": "monitor_page",
   "arguments": {
-    "url": "https://protected-site.com",
-    "bypass_level": "generic_level_1"
+    "url": "https://shop.example.com/product/123",
+    "mode": "extract",
+    "data_schema": "product_page"
   }
 }
 \`\`\`
 
-3. Geo-targeted extraction:
+3. New postings on a job board:
 \`\`\`json
 {
-  "name": "return_links",
+  "name": "monitor_page",
   "arguments": {
-    "url": "https://example.de",
-    "country": "de"
+    "url": "https://careers.example.com/jobs",
+    "mode": "links"
   }
 }
 \`\`\`
-`,
-  parameters: returnLinksSchema,
+
+**Returns:** JSON with \`status\` ("first_snapshot", "changed" or "unchanged"), the previous and current snapshot times, and a \`diff\` for the mode. History lists snapshot times and hashes, newest first. Checks bypass the response cache; history and clear cost no credits.`,
+  parameters: monitorPageSchema,
   execute: async (
     args: unknown,
-    { session, log }: { session?: SessionData; log: Logger }
+    { session, log: clientLog }: { session?: SessionData; log: Logger }
   ): Promise<string> => {
-    const params = args as z.infer<typeof returnLinksSchema>;
-    const apiKey = getApiKey(session);
-
-    const requestParams: Partial<ScrapeOpsRequestParams> = {
-      url: params.url,
-      return_links: true,
-    };
-
-    const usedOptions: UsedOptions = {};
+    const log = requestLog('monitor_page', clientLog);
+    const input = args as z.infer<typeof monitorPageSchema>;
+    const { mode } = input;
 
-    if (params.country) {
-      requestParams.country = params.country;
-      usedOptions.country = params.country;
-    }
-    if (params.residential) {
-      requestParams.residential = true;
-      usedOptions.residential = true;
-    }
-    if (params.mobile) {
-      requestParams.mobile = true;
-      usedOptions.mobile = true;
+    const errors: string[] = [];
+    if (input.selector && mode !== 'text') {
+      errors.push(`\`selector\` only applies to text mode, but \`mode\` is "${mode}".`);
     }
-    if (params.premium) {
-      requestParams.premium = params.premium;
-      usedOptions.premium = params.premium;
+    if (mode === 'extract' && !input.data_schema) {
+      errors.push('`data_schema` is required for extract mode.');
     }
-    if (params.bypass_level) {
-      requestParams.bypass = params.bypass_level;
-      usedOptions.bypass_level = params.bypass_level;
+    if (input.data_schema && mode !== 'extract') {
+      errors.push(`\`data_schema\` only applies to extract mode, but \`mode\` is "${mode}".`);
     }
-    if (params.session_number) {
-      requestParams.session_number = params.session_number;
-      usedOptions.session_number = params.session_number;
-    }
-    if (params.optimize_request) {
-      requestParams.optimize_request = true;
-      usedOptions.optimize_request = true;
-      if (params.max_request_cost) {
-        requestParams.max_request_cost = params.max_request_cost;
-        usedOptions.max_request_cost = params.max_request_cost;
-      }
+    if (errors.length > 0) {
+      return JSON.stringify(validationFailure(input.url, errors), null, 2);
     }
 
-    const validation = validateParams(usedOptions);
+    const key = monitorKey(input.url, mode, input.selector, input.data_schema);
+    const record = await snapshotStore.get(key);
+    const target = {
+      url: input.url,
+      mode,
+      ...(input.selector && { selector: input.selector }),
+      ...(input.data_schema && { data_schema: input.data_schema }),
+    };
 
-    if (!validation.valid) {
-      log.error('Parameter validation failed', { errors: validation.errors });
+    if (input.action === 'history') {
       return JSON.stringify({
-        success: false,
-        url: params.url,
-        error: 'Invalid parameter combination',
-        validation_errors: validation.errors,
+        success: true,
+        ...target,
+        last_checked_at: record?.last_checked_at ?? null,
+        total_snapshots: record?.snapshots.length ?? 0,
+        snapshots: (record?.snapshots || [])
+          .slice(-input.limit)
+          .reverse()
+          .map(snapshot => ({ taken_at: snapshot.taken_at, hash: snapshot.hash })),
+        retention: {
+          max_per_page: SNAPSHOT_CONFIG.maxPerPage || null,
+          max_age_days: SNAPSHOT_CONFIG.maxAgeDays || null,
+        },
       }, null, 2);
     }
 
-    log.info('return_links request', {
+    if (input.action === 'clear') {
+      await snapshotStore.delete(key);
+      log.info('Snapshots cleared', { url: input.url, mode, cleared: record?.snapshots.length ?? 0 });
+      return JSON.stringify({ success: true, ...target, cleared: record?.snapshots.length ?? 0 }, null, 2);
+    }
+
+    const { params } = withLearnedProfile(input, input.url);
+    const apiKey = getApiKey(session);
+    const proxyOptions = {
       url: params.url,
-      options: Object.keys(usedOptions).length > 0 ? usedOptions : 'basic',
-    });
+      country: params.country,
+      residential: params.residential,
+      premium: params.premium,
+      bypass_level: params.bypass_level,
+    };
+    const built = mode === 'extract'
+      ? buildExtractDataRequest({ ...proxyOptions, render_js: params.render_js, wait_for: params.wait_for, mode: 'llm', data_schema: params.data_schema })
+      : mode === 'links'
+        ? buildReturnLinksRequest(proxyOptions)
+        : buildMapsWebRequest({ ...proxyOptions, render_js: params.render_js, wait_for: params.wait_for });
+
+    log.info('monitor_page check', { url: params.url, mode, options: built.usedOptions });
+
+    // A cached response would hide changes; refreshing keeps the cache current for other tools.
+    const result = await proxyRequest({
+      toolName: mode === 'extract' ? 'extract_data' : mode === 'links' ? 'return_links' : 'maps_web',
+      apiKey,
+      session,
+      params: removeEmptyValues(built.requestParams),
+      usedOptions: built.usedOptions,
+      cache: 'refresh',
+      learnProfile: true,
+    }, log);
+
+    if (!result.success) {
+      log.warn('Check failed', { error: result.error, errorType: result.errorType, statusCode: result.statusCode });
+      return JSON.stringify(buildErrorResponse(
+        params.url,
+        result.error || 'Unknown error',
+        result.errorType,
+        result.statusCode,
+        built.usedOptions,
+        result.retriesAttempted || 0,
+        {
+          ...(result.budget && { budget: result.budget }),
+          ...(result.policy && { policy: result.policy }),
+          ...(result.queueWaitMs > 0 && { queue_wait_ms: result.queueWaitMs }),
+        }
+      ), null, 2);
+    }
 
-    const result = await makeRequest(apiKey, removeEmptyValues(requestParams), log);
+    let content: unknown;
+    if (mode === 'extract') {
+      content = typeof result.data === 'object' ? (result.data.data ?? result.data) : result.data;
+    } else if (mode === 'links') {
+      content = extractAllLinks(result.data);
+    } else {
+      let html = asText(result.data);
+      if (input.selector) {
+        let matches: Element[];
+        try {
+          matches = Array.from(parseContentDocument(html, params.url).querySelectorAll(input.selector));
+        } catch (error) {
+          return JSON.stringify(validationFailure(params.url, [
+            `Invalid selector ${JSON.stringify(input.selector)}: ${error instanceof Error ? error.message : String(error)}`,
+          ]), null, 2);
+        }
+        // Storing an empty snapshot would report the whole section as removed
+        // when the page was most likely blocked or redesigned.
+        if (matches.length === 0) {
+          return JSON.stringify({
+            success: false,
+            ...target,
+            error: `Selector ${JSON.stringify(input.selector)} matched nothing on the page. No snapshot was stored.`,
+          }, null, 2);
+        }
+        html = matches.map(element => element.outerHTML).join('\n');
+      }
+      content = convertHtml(html, 'text', params.url)
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .join('\n');
+    }
 
-    if (result.success) {
-      log.info('Links extraction successful');
-      const data = result.data as ScrapeOpsResponse;
-      return JSON.stringify({
-        success: true,
-        url: params.url,
-        status: data?.status || 'links_extract_successful',
-        data: data?.data || data,
-      }, null, 2);
+    const now = new Date();
+    const hash = createHash('sha256').update(JSON.stringify(content ?? null)).digest('hex').slice(0, 16);
+    const previous = record?.snapshots.at(-1);
+    const changed = previous !== undefined && previous.hash !== hash;
+
+    let diff: TextDiff | FieldDiff | LinkDiff | undefined;
+    if (changed) {
+      diff = mode === 'extract'
+        ? fieldDiff(previous.content, content, input.max_diff_entries)
+        : mode === 'links'
+          ? linkDiff(previous.content as string[], content as string[], input.max_diff_entries)
+          : textDiff(previous.content as string, content as string, input.max_diff_entries);
     }
 
-    log.warn('Links extraction failed', {
-      error: result.error,
-      errorType: result.errorType,
-      statusCode: result.statusCode,
+    const snapshots = [...(record?.snapshots || [])];
+    if (!previous || changed) {
+      snapshots.push({ taken_at: now.toISOString(), hash, content });
+    }
+    await snapshotStore.set({
+      key,
+      ...target,
+      last_checked_at: now.toISOString(),
+      snapshots: applyRetention(snapshots, now.getTime()),
     });
 
-    return generateErrorResponse(
-      params.url,
-      result.error || 'Unknown error',
-      result.errorType,
-      result.statusCode,
-      usedOptions,
-      result.retriesAttempted || 0
-    );
+    const status = !previous ? 'first_snapshot' : changed ? 'changed' : 'unchanged';
+    log.info('monitor_page finished', { url: params.url, mode, status });
+
+    return JSON.stringify({
+      success: true,
+      ...target,
+      status,
+      checked_at: now.toISOString(),
+      previous_snapshot_at: previous?.taken_at ?? null,
+      hash,
+      ...(diff && { diff }),
+      ...(input.include_content && { content }),
+      credits_estimate: result.creditsEstimate,
+    }, null, 2);
   },
 });
 
@@ -1344,6 +6860,10 @@ server.addTool({
 
 const port = process.env.PORT ? parseInt(process.env.PORT, 10) : undefined;
 
+if (METRICS_CONFIG.port) {
+  await startMetricsServer();
+}
+
 if (port) {
   await server.start({
     transportType: 'httpStream',
@@ -1351,8 +6871,8 @@ if (port) {
       port,
     },
   });
-  console.error(`ScrapeOps MCP Server running on port ${port} (SSE transport)`);
-  console.error(`Endpoint: http://localhost:${port}/sse`);
+  serverLogger.info(`ScrapeOps MCP Server running on port ${port} (SSE transport)`);
+  serverLogger.info(`Endpoint: http://localhost:${port}/sse`);
 } else {
   await server.start({
     transportType: 'stdio',
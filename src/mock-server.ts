@@ -0,0 +1,478 @@
+#!/usr/bin/env node
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { gzipSync } from 'node:zlib';
+import type {
+  MockFixture,
+  MockServerOptions,
+  MockRequestRecord,
+  MockServerHandle,
+} from './types/index.js';
+
+// ============================================================================
+// Default Responses
+// ============================================================================
+
+export const mockHtmlResponse = `
+<!DOCTYPE html>
+<html>
+<head><title>Test Page</title></head>
+<body>
+  <h1>Test Content</h1>
+  <p>This is test content from ScrapeOps proxy.</p>
+</body>
+</html>
+`;
+
+export const mockJsonResponse = {
+  success: true,
+  data: {
+    title: 'Test Product',
+    price: 99.99,
+    description: 'Test product description',
+  },
+  initial_status_code: 200,
+  final_status_code: 200,
+};
+
+export const mockScreenshotResponse = {
+  success: true,
+  screenshot: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  initial_status_code: 200,
+  final_status_code: 200,
+};
+
+export const mockExtractResponse = {
+  success: true,
+  data: {
+    product_name: 'Test Product',
+    price: '$99.99',
+    availability: 'In Stock',
+    reviews_count: 150,
+    rating: 4.5,
+  },
+};
+
+export const mockAccountResponse = {
+  plan_name: 'Mock Plan',
+  plan_api_credits: 25000,
+  concurrency_limit: 5,
+  renewal_date: '2099-01-01',
+};
+
+export const mockRobotsTxt = (origin: string) => `User-agent: *
+Disallow: /private/
+Allow: /private/press$
+
+User-agent: BadBot
+Disallow: /
+
+Sitemap: ${origin}/sitemap_index.xml
+`;
+
+export const mockSitemapIndex = (origin: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${origin}/sitemap-pages.xml</loc></sitemap>
+  <sitemap><loc>${origin}/sitemap-posts.xml.gz</loc></sitemap>
+</sitemapindex>
+`;
+
+export const mockSitemapPages = (origin: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>${origin}/</loc><lastmod>2024-01-15</lastmod><changefreq>daily</changefreq></url>
+  <url><loc>${origin}/about</loc><lastmod>2023-06-01</lastmod></url>
+  <url><loc>${origin}/private/account</loc></url>
+  <url><loc>${origin}/private/press</loc><lastmod>2024-03-01</lastmod></url>
+</urlset>
+`;
+
+export const mockSitemapPosts = (origin: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>${origin}/blog/first-post</loc><lastmod>2024-02-10T08:00:00+00:00</lastmod><changefreq>monthly</changefreq></url>
+  <url><loc>${origin}/blog/second-post</loc><lastmod>2024-05-20T08:00:00+00:00</lastmod><changefreq>monthly</changefreq></url>
+  <url><loc>${origin}/about</loc></url>
+</urlset>
+`;
+
+export const mockLinksResponse = {
+  status: 'links_extract_successful',
+  data: {
+    pages: ['https://example.com/', 'https://example.com/about'],
+    assets: ['https://example.com/style.css'],
+  },
+};
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Load recorded fixtures from a directory of JSON files. Each file holds a
+ * single fixture or an array of them.
+ */
+export function loadFixtures(dir: string): MockFixture[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  const fixtures: MockFixture[] = [];
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.endsWith('.json')) continue;
+    const parsed = JSON.parse(readFileSync(join(dir, file), 'utf8')) as MockFixture | MockFixture[];
+    fixtures.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+  return fixtures;
+}
+
+/**
+ * Find the recorded fixture for a request. The target URL and the full set of
+ * proxy params must match, so a plain-HTML recording is never replayed for a
+ * JSON-mode request.
+ */
+function findFixture(fixtures: MockFixture[], params: Record<string, string>): MockFixture | undefined {
+  const { url, ...rest } = params;
+  const requested = Object.entries(rest);
+  return fixtures.find(fixture => {
+    const expected = fixture.params || {};
+    return (
+      fixture.url === url &&
+      Object.keys(expected).length === requested.length &&
+      requested.every(([k, v]) => expected[k] === v)
+    );
+  });
+}
+
+function fixtureFileName(params: Record<string, string>): string {
+  const slug = params.url.replace(/^https?:\/\//, '').replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 60);
+  const hash = createHash('sha1').update(JSON.stringify(params)).digest('hex').slice(0, 8);
+  return `${slug}-${hash}.json`;
+}
+
+// ============================================================================
+// Request Handling
+// ============================================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined;
+}
+
+function sendFixture(res: ServerResponse, fixture: MockFixture): void {
+  const status = fixture.status ?? 200;
+  if (typeof fixture.body === 'string') {
+    res.writeHead(status, { 'content-type': 'text/html', ...fixture.headers });
+    res.end(fixture.body);
+    return;
+  }
+  sendJson(res, status, fixture.body, fixture.headers);
+}
+
+/**
+ * Simulate an upstream failure. The status is requested through a
+ * `mock_status` query parameter on the target URL, so the same request shape
+ * the tools send can exercise every error path. `mock_unblock` lists proxy
+ * params (e.g. `residential,bypass`) that make the failure go away once all
+ * are sent, to exercise escalation.
+ */
+function simulatedStatus(params: Record<string, string>): { status: number; retryAfter?: string } | undefined {
+  let target: URL;
+  try {
+    target = new URL(params.url);
+  } catch {
+    return undefined;
+  }
+  const status = parseInt(target.searchParams.get('mock_status') || '', 10);
+  if (!status || status < 400) {
+    return undefined;
+  }
+  const unblock = target.searchParams.get('mock_unblock');
+  if (unblock && unblock.split(',').every(param => params[param] !== undefined)) {
+    return undefined;
+  }
+  return { status, retryAfter: target.searchParams.get('mock_retry_after') || undefined };
+}
+
+/**
+ * Simulate a slow target: `mock_delay=<ms>` on the target URL holds the
+ * response back, to exercise timeouts and cancellation.
+ */
+function simulatedDelay(targetUrl: string): number {
+  try {
+    return parseInt(new URL(targetUrl).searchParams.get('mock_delay') || '0', 10) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Simulate a network failure: `mock_drop=true` on the target URL closes the
+ * connection without a response.
+ */
+function simulatedDrop(targetUrl: string): boolean {
+  try {
+    return new URL(targetUrl).searchParams.get('mock_drop') === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Page number of a target URL, from a `page` query param or a `/page/<n>`
+ * path segment. The first page carries neither.
+ */
+function targetPage(target: URL): number {
+  const fromPath = target.pathname.match(/\/page\/(\d+)\/?$/);
+  return parseInt(target.searchParams.get('page') || fromPath?.[1] || '1', 10) || 1;
+}
+
+/**
+ * Three results per page for search page schemas. `mock_last_page=<n>` on
+ * the target URL leaves the pages after it empty.
+ */
+function mockSearchResponse(targetUrl: string): unknown {
+  const target = new URL(targetUrl);
+  const page = targetPage(target);
+  const lastPage = parseInt(target.searchParams.get('mock_last_page') || '', 10) || Infinity;
+  const results = page > lastPage
+    ? []
+    : [1, 2, 3].map(i => {
+        const n = (page - 1) * 3 + i;
+        return { name: `Result ${n}`, url: `${target.origin}/item/${n}` };
+      });
+  return { success: true, data: { results } };
+}
+
+/**
+ * The canned links plus a link to the next page of the target URL.
+ */
+function mockLinksFor(targetUrl: string): unknown {
+  const next = new URL(targetUrl);
+  next.searchParams.set('page', String(targetPage(next) + 1));
+  return { ...mockLinksResponse, data: { ...mockLinksResponse.data, pages: [...mockLinksResponse.data.pages, next.toString()] } };
+}
+
+/**
+ * Report every browser instruction as run. An instruction whose selector or
+ * script mentions `mock-missing` fails, and the browser stops there.
+ */
+function scenarioReport(scenario: string): { steps: Record<string, unknown>[] } {
+  const { instructions = [] } = JSON.parse(scenario) as { instructions?: unknown[] };
+  const steps: Record<string, unknown>[] = [];
+  for (const instruction of instructions) {
+    const [action] = Object.keys(instruction as object);
+    if (JSON.stringify(instruction).includes('mock-missing')) {
+      steps.push({ action, success: false, duration: 0, error: 'Element not found' });
+      break;
+    }
+    steps.push({ action, success: true, duration: 5, ...(action === 'evaluate' && { result: 'mock result' }) });
+  }
+  return { steps };
+}
+
+/**
+ * robots.txt and a sitemap index with a plain and a gzipped sitemap, served
+ * for every target origin.
+ */
+function siteFile(targetUrl: string): { contentType: string; body: string | Buffer } | undefined {
+  const { origin, pathname } = new URL(targetUrl);
+  switch (pathname) {
+    case '/robots.txt':
+      return { contentType: 'text/plain', body: mockRobotsTxt(origin) };
+    case '/sitemap_index.xml':
+      return { contentType: 'application/xml', body: mockSitemapIndex(origin) };
+    case '/sitemap-pages.xml':
+      return { contentType: 'application/xml', body: mockSitemapPages(origin) };
+    case '/sitemap-posts.xml.gz':
+      return { contentType: 'application/x-gzip', body: gzipSync(mockSitemapPosts(origin)) };
+    default:
+      return undefined;
+  }
+}
+
+function defaultBody(params: Record<string, string>): { contentType: string; body: string | Buffer } {
+  const json = (body: unknown) => ({ contentType: 'application/json', body: JSON.stringify(body) });
+  if (params.js_scenario) {
+    return json({
+      ...(params.screenshot === 'true' ? mockScreenshotResponse : { data: mockHtmlResponse }),
+      js_scenario_report: scenarioReport(params.js_scenario),
+    });
+  }
+  if (params.screenshot === 'true') return json(mockScreenshotResponse);
+  if (params.llm_data_schema?.endsWith('_search_page')) return json(mockSearchResponse(params.url));
+  if (params.llm_extract === 'true' || params.auto_extract) return json(mockExtractResponse);
+  if (params.return_links === 'true') return json(mockLinksFor(params.url));
+  if (params.json_response === 'true') return json(mockJsonResponse);
+  return siteFile(params.url) ?? { contentType: 'text/html', body: mockHtmlResponse };
+}
+
+async function recordFixture(
+  upstream: string,
+  params: Record<string, string>,
+  apiKey: string,
+  fixturesDir: string
+): Promise<MockFixture> {
+  const query = new URLSearchParams({ ...params, api_key: apiKey });
+  const response = await fetch(`${upstream}?${query.toString()}`);
+  const contentType = response.headers.get('content-type') || '';
+  const text = await response.text();
+  const fixture: MockFixture = {
+    url: params.url,
+    params: Object.fromEntries(Object.entries(params).filter(([k]) => k !== 'url')),
+    status: response.status,
+    headers: { 'content-type': contentType },
+    body: contentType.includes('application/json') ? JSON.parse(text) : text,
+  };
+  mkdirSync(fixturesDir, { recursive: true });
+  writeFileSync(join(fixturesDir, fixtureFileName(params)), JSON.stringify(fixture, null, 2));
+  return fixture;
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Start a local stand-in for the ScrapeOps proxy API. Point the MCP server at
+ * it with SCRAPEOPS_API_URL to exercise the full request pipeline offline.
+ *
+ * - API keys starting with `invalid` are rejected with HTTP 401
+ * - The method, headers and body of every request are recorded
+ * - `/v1/account` reports a plan whose used credits count the requests served
+ * - `mock_status=<code>` on the target URL returns that status
+ *   (`mock_retry_after=<seconds>` adds a Retry-After header,
+ *   `mock_unblock=<param,...>` lets requests sending those params through)
+ * - `mock_delay=<ms>` on the target URL delays the response
+ * - `mock_drop=true` on the target URL closes the connection unanswered
+ * - Cookies forwarded with `keep_headers` come back as `Set-Cookie` headers
+ * - Browser actions (`js_scenario`) come back with a step report; a step
+ *   mentioning `mock-missing` fails
+ * - `/robots.txt` and the sitemaps it lists (one of them gzipped) are served
+ *   for any target site
+ * - Search page extractions return three results per page
+ *   (`mock_last_page=<n>` empties the pages after it) and link extractions
+ *   include a `?page=` link to the next page
+ * - With `maxConcurrent`, requests over that many in flight get the 429 that
+ *   ScrapeOps sends when an account exceeds its plan's concurrency
+ * - Recorded fixtures are replayed when the URL and params match
+ * - Everything else gets a canned HTML/JSON response
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServerHandle> {
+  const fixturesDir = options.fixturesDir ? resolve(options.fixturesDir) : undefined;
+  const fixtures = fixturesDir ? loadFixtures(fixturesDir) : [];
+  const requests: MockRequestRecord[] = [];
+  let inFlight = 0;
+  let served = 0;
+
+  const handler = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const reqUrl = new URL(req.url || '/', 'http://localhost');
+    const { api_key: apiKey, ...params } = Object.fromEntries(reqUrl.searchParams.entries());
+    requests.push({
+      method: req.method || 'GET',
+      path: reqUrl.pathname,
+      params,
+      headers: req.headers,
+      body: await readBody(req),
+    });
+
+    if (!apiKey || apiKey.startsWith('invalid')) {
+      sendJson(res, 401, { error: 'Invalid API key' });
+      return;
+    }
+    if (reqUrl.pathname.endsWith('/account')) {
+      sendJson(res, 200, {
+        ...mockAccountResponse,
+        concurrency_limit: options.maxConcurrent || mockAccountResponse.concurrency_limit,
+        used_api_credits: served,
+      });
+      return;
+    }
+    if (!params.url) {
+      sendJson(res, 400, { error: 'Missing url parameter' });
+      return;
+    }
+
+    if (options.maxConcurrent && inFlight >= options.maxConcurrent) {
+      sendJson(res, 429, { error: 'You have exceeded the concurrency limit of your plan.' });
+      return;
+    }
+    inFlight++;
+    res.on('close', () => inFlight--);
+
+    const delay = simulatedDelay(params.url);
+    if (delay > 0) {
+      await new Promise(res => setTimeout(res, delay));
+    }
+
+    if (simulatedDrop(params.url)) {
+      req.socket.destroy();
+      return;
+    }
+
+    const simulated = simulatedStatus(params);
+    if (simulated) {
+      const headers: Record<string, string> = simulated.retryAfter ? { 'retry-after': simulated.retryAfter } : {};
+      sendJson(res, simulated.status, { error: `Simulated HTTP ${simulated.status}` }, headers);
+      return;
+    }
+
+    served++;
+    // The target site renews the session cookies forwarded to it.
+    if (params.keep_headers === 'true' && req.headers.cookie) {
+      res.setHeader('set-cookie', req.headers.cookie.split(/;\s*/).map(cookie => `${cookie}; Path=/; HttpOnly`));
+    }
+    const fixture = findFixture(fixtures, params);
+    if (fixture) {
+      sendFixture(res, fixture);
+      return;
+    }
+
+    if (options.recordUpstream && fixturesDir) {
+      const recorded = await recordFixture(options.recordUpstream, params, apiKey, fixturesDir);
+      fixtures.push(recorded);
+      sendFixture(res, recorded);
+      return;
+    }
+
+    const { contentType, body } = defaultBody(params);
+    res.writeHead(200, { 'content-type': contentType });
+    res.end(body);
+  };
+
+  const server = createServer((req, res) => {
+    handler(req, res).catch(error => {
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  const host = options.host || '127.0.0.1';
+  await new Promise<void>(res => server.listen(options.port ?? 0, host, res));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}/v1/`,
+    requests,
+    close: () => new Promise<void>((res, rej) => server.close(err => (err ? rej(err) : res()))),
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = await startMockServer({
+    port: parseInt(process.env.MOCK_PORT || '8787', 10),
+    fixturesDir: process.env.SCRAPEOPS_MOCK_FIXTURES_DIR,
+    recordUpstream: process.env.SCRAPEOPS_MOCK_RECORD_UPSTREAM,
+    maxConcurrent: parseInt(process.env.SCRAPEOPS_MOCK_MAX_CONCURRENT || '0', 10),
+  });
+  console.error(`Mock ScrapeOps server running at ${mock.url}`);
+  console.error(`Use it with: SCRAPEOPS_API_URL=${mock.url}`);
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { startMcpServer } from '../jest.setup.js';
+import type { ResponseEnvelope } from './types/index.js';
+
+// No raw credential may reach the MCP client or the server log, whichever
+// path a request takes through the tools.
+
+const API_KEY = 'sk-raw-secret-key-123456';
+const BEARER_TOKEN = 'eyJhbGciOiJIUzI1NiJ9.raw-bearer-token';
+const COOKIE_VALUE = 'raw-session-cookie-7890';
+const SECRETS = [API_KEY, BEARER_TOKEN, COOKIE_VALUE];
+
+// A target URL carrying credentials in its query, as signed URLs and pasted
+// links do. It shows up in log entries and error responses.
+function signedUrl(path: string): string {
+  return `https://mock.test${path}${path.includes('?') ? '&' : '?'}api_key=${API_KEY}&access_token=${BEARER_TOKEN}`;
+}
+
+type ToolResult = { content: { type: string; text?: string }[] };
+
+interface LogEntry {
+  level: string;
+  msg: string;
+  request_id?: string;
+  [field: string]: unknown;
+}
+
+async function callText(client: Client, name: string, args: Record<string, unknown>): Promise<string> {
+  const result = (await client.callTool({ name, arguments: args })) as ToolResult;
+  return result.content.map(block => block.text ?? '').join('\n');
+}
+
+function expectNoSecrets(text: string): void {
+  for (const secret of SECRETS) {
+    expect(text).not.toContain(secret);
+  }
+}
+
+describe.each([['json'], ['text']])('secrets with %s logs', logFormat => {
+  let server: Awaited<ReturnType<typeof startMcpServer>>;
+
+  beforeAll(async () => {
+    server = await startMcpServer({
+      SCRAPEOPS_API_KEY: API_KEY,
+      SCRAPEOPS_LOG_FORMAT: logFormat,
+      SCRAPEOPS_RETRY_MAX_ATTEMPTS: '1',
+    });
+  });
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
+  const calls: [string, string, Record<string, unknown>][] = [
+    ['maps_web', 'success', { url: 'https://mock.test/page' }],
+    ['maps_web', 'HTTP 403', { url: signedUrl('/?mock_status=403') }],
+    ['maps_web', 'HTTP 500', { url: signedUrl('/?mock_status=500') }],
+    ['maps_web', 'HTTP 429 with structured output', { url: signedUrl('/?mock_status=429'), structured_output: true }],
+    ['maps_web', 'a network error', { url: signedUrl('/?mock_drop=true') }],
+    [
+      'maps_web',
+      'keep_headers with Authorization and cookies',
+      {
+        url: 'https://mock.test/account',
+        headers: { Authorization: `Bearer ${BEARER_TOKEN}` },
+        cookies: { session: COOKIE_VALUE },
+        structured_output: true,
+      },
+    ],
+    ['extract_data', 'success', { url: 'https://mock.test/product', mode: 'llm', keep_headers: true }],
+    ['extract_data', 'HTTP 404', { url: signedUrl('/?mock_status=404'), mode: 'llm' }],
+    ['extract_data', 'a network error', { url: signedUrl('/?mock_drop=true'), mode: 'llm' }],
+    [
+      'batch_browse',
+      'mixed results',
+      {
+        urls: ['https://mock.test/a', signedUrl('/?mock_status=401'), signedUrl('/?mock_drop=true')],
+        headers: { Authorization: `Bearer ${BEARER_TOKEN}` },
+        cookies: { session: COOKIE_VALUE },
+        structured_output: true,
+      },
+    ],
+  ];
+
+  it.each(calls)('%s on %s leaks nothing', async (tool, _label, args) => {
+    expectNoSecrets(await callText(server.client, tool, args));
+  });
+
+  it('keeps the Set-Cookie header but masks its value', async () => {
+    const text = await callText(server.client, 'maps_web', {
+      url: 'https://mock.test/session',
+      cookies: { session: COOKIE_VALUE },
+      structured_output: true,
+    });
+    const envelope = JSON.parse(text) as ResponseEnvelope;
+    expect(envelope.success).toBe(true);
+    expect(envelope.headers?.['set-cookie']).toBe('[REDACTED]');
+  });
+
+  it('keeps the server and client logs free of secrets', () => {
+    const logs = `${server.logs()}\n${server.clientLogs()}`;
+    expect(logs).toContain('Making ScrapeOps request');
+    expectNoSecrets(logs);
+  });
+});
+
+describe('JsonLogger output', () => {
+  let server: Awaited<ReturnType<typeof startMcpServer>>;
+
+  beforeAll(async () => {
+    server = await startMcpServer({
+      SCRAPEOPS_API_KEY: API_KEY,
+      SCRAPEOPS_LOG_FORMAT: 'json',
+      SCRAPEOPS_RETRY_MAX_ATTEMPTS: '1',
+    });
+    await callText(server.client, 'maps_web', { url: 'https://mock.test/?mock_drop=true' });
+  });
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
+  it('writes one JSON object per line, tagged with the request ID', () => {
+    const entries = server
+      .logs()
+      .split('\n')
+      .filter(line => line.startsWith('{'))
+      .map(line => JSON.parse(line) as LogEntry);
+    const request = entries.find(entry => entry.msg === 'Making ScrapeOps request');
+    expect(request).toMatchObject({ level: 'info', tool: 'maps_web', url: 'https://mock.test/?mock_drop=true' });
+    expect(request?.request_id).toEqual(expect.any(String));
+    expect(entries.some(entry => entry.level === 'warn' && entry.msg.startsWith('Network error'))).toBe(true);
+  });
+});
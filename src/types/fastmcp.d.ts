@@ -16,9 +16,33 @@ declare module 'firecrawl-fastmcp' {
         httpStream: { port: number; host?: string; stateless?: boolean };
       };
 
+  export interface TextContent {
+    type: 'text';
+    text: string;
+  }
+
+  export interface ImageContent {
+    type: 'image';
+    data: string;
+    mimeType: string;
+  }
+
+  export type Content = TextContent | ImageContent;
+
+  export interface ContentResult {
+    content: Content[];
+    isError?: boolean;
+  }
+
+  export interface Progress {
+    progress: number;
+    total?: number;
+  }
+
   export interface ToolContext<Session = unknown> {
     session?: Session;
     log: Logger;
+    reportProgress: (progress: Progress) => Promise<void>;
   }
 
   export type ToolExecute<Session = unknown> = (
@@ -26,6 +50,11 @@ declare module 'firecrawl-fastmcp' {
     context: ToolContext<Session>
   ) => unknown | Promise<unknown>;
 
+  export class FastMCPSession {
+    readonly server: object;
+    connect(transport: unknown): Promise<void>;
+  }
+
   export class FastMCP<Session = unknown> {
     constructor(options: {
       name: string;
@@ -47,9 +76,15 @@ declare module 'firecrawl-fastmcp' {
       name: string;
       description?: string;
       parameters?: unknown;
+      canAccess?: (auth: Session) => boolean;
       execute: ToolExecute<Session>;
     }): void;
 
+    on(
+      event: 'connect' | 'disconnect',
+      listener: (event: { session: FastMCPSession }) => void
+    ): this;
+
     start(args?: TransportArgs): Promise<void>;
   }
 }
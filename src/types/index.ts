@@ -1,12 +1,39 @@
 
-export type { Logger, TransportArgs, ToolContext, ToolExecute } from 'firecrawl-fastmcp';
+export type {
+  Logger,
+  TransportArgs,
+  ToolContext,
+  ToolExecute,
+  TextContent,
+  ImageContent,
+  Content,
+  ContentResult,
+  Progress,
+} from 'firecrawl-fastmcp';
 
 
 export interface SessionData {
   scrapeOpsApiKey?: string;
+  // Set when the session authenticated with a server-issued bearer token.
+  token?: AccessToken;
   [key: string]: unknown;
 }
 
+export interface AccessToken {
+  name: string;
+  allowedTools?: string[];
+  creditQuota?: number;
+}
+
+// One entry of the SCRAPEOPS_AUTH_TOKENS_FILE config.
+export interface AccessTokenConfig {
+  name: string;
+  token: string;
+  api_key: string;
+  allowed_tools?: string[];
+  credit_quota?: number;
+}
+
 export interface AuthenticateRequest {
   headers?: Record<string, string | string[] | undefined>;
 }
@@ -26,10 +53,17 @@ export type ErrorType =
   | 'forbidden'
   | 'not_found'
   | 'rate_limited'
+  | 'account_rate_limited'
   | 'server_error'
   | 'bad_gateway'
   | 'service_unavailable'
   | 'network_error'
+  | 'budget_exceeded'
+  | 'policy_blocked'
+  | 'timeout'
+  | 'cancelled'
+  | 'processing_failed'
+  | 'response_too_large'
   | 'unknown';
 
 export interface RequestResult {
@@ -39,6 +73,9 @@ export interface RequestResult {
   errorType?: ErrorType;
   statusCode?: number;
   retriesAttempted?: number;
+  budget?: BudgetStatus;
+  policy?: PolicyViolation;
+  headers?: Record<string, string>;
 }
 
 
@@ -68,7 +105,9 @@ export interface ScrapeOpsRequestParams {
   llm_extract?: boolean;
   llm_data_schema?: string;
   llm_extract_response_type?: string;
+  llm_extract_schema?: string;
   return_links?: boolean;
+  js_scenario?: string;
 }
 
 export interface UsedOptions {
@@ -89,6 +128,31 @@ export interface UsedOptions {
   session_number?: number;
   optimize_request?: boolean;
   max_request_cost?: number;
+  method?: string;
+  // Names only: header and cookie values may be credentials.
+  header_names?: string[];
+  cookie_names?: string[];
+  action_steps?: number;
+}
+
+export type BrowserAction =
+  | { type: 'click'; selector: string }
+  | { type: 'type'; selector: string; text: string }
+  | { type: 'wait_for'; selector: string }
+  | { type: 'scroll'; pixels: number }
+  | { type: 'press'; key: string }
+  | { type: 'evaluate'; script: string };
+
+export interface ActionStepReport {
+  step: number;
+  type: BrowserAction['type'];
+  target: string;
+  // not_reported: ScrapeOps did not say whether the step ran, e.g. because
+  // an earlier step failed.
+  status: 'succeeded' | 'failed' | 'not_reported';
+  duration_ms?: number;
+  error?: string;
+  result?: unknown;
 }
 
 
@@ -102,6 +166,24 @@ export interface ValidationParams {
   premium?: string;
   session_number?: number;
   max_request_cost?: number;
+  mode?: string;
+  data_schema?: string;
+  response_format?: string;
+  custom_schema?: Record<string, unknown>;
+  fields?: ExtractionField[];
+  selectors?: Record<string, unknown>;
+  screenshot_format?: string;
+  screenshot_max_width?: number;
+  screenshot_max_bytes?: number;
+  screenshot_delivery?: string;
+  keep_headers?: boolean;
+  method?: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  body?: string | Record<string, unknown>;
+  body_format?: string;
+  actions?: BrowserAction[];
+  escalation?: { ladder: string[]; max_credits: number };
 }
 
 export interface ValidationResult {
@@ -112,6 +194,8 @@ export interface ValidationResult {
 
 export interface SuggestedAdvancedParams {
   residential?: boolean;
+  mobile?: boolean;
+  premium?: string;
   bypass_level?: string;
   render_js?: boolean;
 }
@@ -124,10 +208,15 @@ export interface ErrorResponse {
   status_code: number | undefined;
   retries_attempted: number;
   options_used: string | UsedOptions;
+  budget?: BudgetStatus;
+  policy?: PolicyViolation;
+  queue_wait_ms?: number;
+  escalation?: EscalationReport;
   permission_request?: {
     message: string;
     question: string;
     suggested_options: SuggestedAdvancedParams;
+    learned_profile?: Pick<DomainProfile, 'domain' | 'successes' | 'last_success_at'>;
     estimated_additional_cost: string;
     action_required: string;
   };
@@ -139,3 +228,420 @@ export interface ErrorResponse {
   };
 }
 
+
+export interface MockFixture {
+  url: string;
+  params?: Record<string, string>;
+  status?: number;
+  headers?: Record<string, string>;
+  body: string | Record<string, unknown>;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  fixturesDir?: string;
+  recordUpstream?: string;
+  maxConcurrent?: number;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: string;
+}
+
+export interface MockServerHandle {
+  url: string;
+  requests: MockRequestRecord[];
+  close(): Promise<void>;
+}
+
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'refresh';
+
+export type CachedTool = 'maps_web' | 'extract_data' | 'return_links';
+
+// What a proxied request is counted under in spend and metrics: a tool's page
+// request, or the robots.txt lookup the access policy makes on its own.
+export type ProxyTool = CachedTool | 'robots_txt';
+
+export interface CacheEntry {
+  result: RequestResult;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheInfo {
+  status: CacheStatus;
+  age_seconds?: number;
+  expires_in_seconds?: number;
+}
+
+export interface ProxyRequest {
+  toolName: ProxyTool;
+  apiKey: string;
+  session?: SessionData;
+  params: Partial<ScrapeOpsRequestParams>;
+  usedOptions: UsedOptions;
+  cache: CacheMode;
+  timeoutMs?: number;
+  forward?: ForwardedRequest;
+  // Set on page requests a tool makes; only these update the domain's
+  // learned profile, not robots.txt or sitemap fetches.
+  learnProfile?: boolean;
+}
+
+export interface ProxyRequestResult extends RequestResult {
+  cache: CacheInfo;
+  creditsEstimate: number;
+  startedAt: number;
+  durationMs: number;
+  queueWaitMs: number;
+}
+
+export type ExtractionKind = 'auto' | 'llm';
+
+export interface CreditEstimate {
+  credits: number;
+  breakdown: Record<string, number>;
+}
+
+export interface BudgetStatus {
+  scope: 'session' | 'api_key' | 'token';
+  limit: number;
+  spent: number;
+  remaining: number;
+  requested: number;
+}
+
+// The operator policy that refused a request. `rule` is the pattern,
+// robots.txt directive or limit that matched.
+export interface PolicyViolation {
+  policy: 'denied_domains' | 'allowed_domains' | 'robots_txt' | 'domain_rate_limit';
+  domain: string;
+  rule: string;
+}
+
+export interface CrawlNode {
+  url: string;
+  depth: number;
+  // 'content_error': links were read but the include_content fetch failed
+  status: 'ok' | 'error' | 'content_error';
+  links_found?: number;
+  error?: string;
+  error_type?: ErrorType;
+  content?: string;
+}
+
+export interface CrawlEdge {
+  from: string;
+  to: string;
+}
+
+export type PaginationStopReason =
+  | 'max_pages'
+  | 'empty_page'
+  | 'no_new_items'
+  | 'no_next_page'
+  | 'credit_cap'
+  | 'budget_exceeded'
+  | 'page_failed';
+
+export interface PaginationPage {
+  page: number;
+  url: string;
+  status: 'ok' | 'error';
+  items?: number;
+  new_items?: number;
+  error?: string;
+  error_type?: ErrorType;
+  next_page_error?: string;
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export interface RobotsGroup {
+  // Lowercased User-agent values the group applies to.
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+}
+
+export interface SitemapFetch {
+  url: string;
+  status: 'ok' | 'error';
+  type?: 'urlset' | 'sitemapindex' | 'text';
+  entries?: number;
+  error?: string;
+  error_type?: ErrorType;
+}
+
+export interface DiscoveredUrl {
+  url: string;
+  lastmod?: string;
+  changefreq?: string;
+  disallowed: boolean;
+}
+
+export type MonitorMode = 'text' | 'extract' | 'links';
+
+export interface PageSnapshot {
+  taken_at: string;
+  hash: string;
+  // Page text, extracted JSON or the sorted link list, depending on the mode.
+  content: unknown;
+}
+
+// Snapshot history of one monitored page. A new snapshot is stored only when
+// the content changed; `last_checked_at` records every check.
+export interface MonitorRecord {
+  key: string;
+  url: string;
+  mode: MonitorMode;
+  selector?: string;
+  data_schema?: string;
+  last_checked_at: string;
+  snapshots: PageSnapshot[];
+}
+
+export interface TextDiff {
+  lines_added: number;
+  lines_removed: number;
+  unified: string;
+  truncated: boolean;
+}
+
+export interface FieldDiff {
+  added: { path: string; value: unknown }[];
+  removed: { path: string; value: unknown }[];
+  changed: { path: string; before: unknown; after: unknown }[];
+  truncated: boolean;
+}
+
+export interface LinkDiff {
+  added: string[];
+  removed: string[];
+  truncated: boolean;
+}
+
+export interface BatchBrowseSuccess {
+  success: true;
+  url: string;
+  status_code?: number;
+  content?: string;
+  screenshot_path?: string;
+  screenshot_attachment?: number;
+  learned_profile?: EscalationOptions;
+  actions?: ActionStepReport[];
+  escalation?: EscalationReport;
+  cache: CacheInfo;
+  queue_wait_ms?: number;
+}
+
+// With structured_output, each result is the envelope maps_web would return
+export type BatchBrowseResult = BatchBrowseSuccess | ErrorResponse | ResponseEnvelope;
+
+export type OutputFormat = 'html' | 'markdown' | 'text' | 'readable';
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface ExtractionField {
+  name: string;
+  description: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  required?: boolean;
+}
+
+export interface SchemaValidationReport {
+  valid: boolean;
+  missing_fields: string[];
+  invalid_fields: { path: string; message: string }[];
+}
+
+export type SelectorTransform =
+  | 'trim'
+  | 'number'
+  | 'integer'
+  | 'absolute_url'
+  | 'lowercase'
+  | 'uppercase';
+
+export interface SelectorField {
+  selector: string;
+  type?: 'css' | 'xpath';
+  attribute?: string;
+  multiple?: boolean;
+  transform?: SelectorTransform[];
+}
+
+export interface SelectorExtractionResult {
+  data: Record<string, unknown>;
+  unmatched_fields: string[];
+  selector_errors: { field: string; message: string }[];
+}
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ScreenshotOptions {
+  format: ScreenshotFormat;
+  maxWidth?: number;
+  maxBytes?: number;
+}
+
+export interface ProcessedScreenshot {
+  buffer: Buffer;
+  mimeType: string;
+  format: ScreenshotFormat;
+  width?: number;
+  height?: number;
+  bytes: number;
+  original_bytes: number;
+}
+
+export type EnvelopeContentType = 'html' | 'markdown' | 'text' | 'json' | 'image';
+
+export interface ResponseEnvelope {
+  success: boolean;
+  tool: string;
+  url: string;
+  final_url?: string;
+  status_code?: number;
+  initial_status_code?: number;
+  final_status_code?: number;
+  headers?: Record<string, string>;
+  content: unknown;
+  content_type: EnvelopeContentType | null;
+  options_used: UsedOptions;
+  credits_estimate: number;
+  cache: CacheInfo;
+  timing: {
+    started_at: string;
+    duration_ms: number;
+    queue_wait_ms: number;
+  };
+  warnings?: string[];
+  details?: Record<string, unknown>;
+  error?: ErrorResponse | ValidationFailure;
+}
+
+export interface ValidationFailure {
+  success: false;
+  url: string;
+  error: string;
+  validation_errors: string[];
+  action_required: string;
+}
+
+export interface ToolCallContext {
+  requestId: string;
+  signal?: AbortSignal;
+  structuredContent?: ResponseEnvelope;
+}
+
+export interface RequestControl {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Endpoint relative to the API base URL; the proxy endpoint when omitted.
+  path?: string;
+  forward?: ForwardedRequest;
+}
+
+// Method, headers and body the proxy passes on to the target site.
+export interface ForwardedRequest {
+  method: 'GET' | 'POST' | 'PUT';
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface ScrapeOpsAccountResponse {
+  plan_name?: string;
+  plan_api_credits?: number;
+  used_api_credits?: number;
+  concurrency_limit?: number;
+  renewal_date?: string;
+}
+
+export interface CreditTallyEntry {
+  credits: number;
+  requests: number;
+}
+
+export interface CreditTally {
+  credits: number;
+  requests: number;
+  by_tool: Record<string, CreditTallyEntry>;
+  by_domain: Record<string, CreditTallyEntry>;
+}
+
+export type EscalationOptions = Pick<UsedOptions, 'residential' | 'mobile' | 'premium' | 'render_js' | 'bypass_level'>;
+
+export interface EscalationPolicy {
+  ladder: string[];
+  maxCredits: number;
+}
+
+export interface EscalationAttempt {
+  step: string;
+  options_used: UsedOptions;
+  success: boolean;
+  status_code?: number;
+  error_type?: ErrorType;
+  credits_estimate: number;
+}
+
+export interface EscalationReport {
+  attempts: EscalationAttempt[];
+  max_credits: number;
+  credits_estimate_total: number;
+  stopped_reason: 'succeeded' | 'not_escalatable' | 'ladder_exhausted' | 'credit_ceiling';
+}
+
+export interface EscalationOutcome {
+  result: ProxyRequestResult;
+  usedOptions: UsedOptions;
+  escalation?: EscalationReport;
+}
+
+export interface DomainProfile {
+  domain: string;
+  options: EscalationOptions;
+  successes: number;
+  failures: number;
+  last_success_at: string;
+  last_failure_at?: string;
+  last_error_type?: ErrorType;
+}